@@ -0,0 +1,424 @@
+import { isEquals, isFunction } from './utilities.ts';
+
+/**
+ * A property key of the item, or a function returning the value to compare
+ */
+export type Selector<T, R = unknown> = keyof T | ((item: T) => R);
+
+type SelectorResult<T, S> = S extends (item: T) => infer R
+  ? R
+  : S extends keyof T
+  ? T[S]
+  : never;
+
+const toSelector =
+  <T, R>(selector: Selector<T, R>) =>
+  (item: T): R =>
+    isFunction(selector)
+      ? selector(item)
+      : (item[selector as keyof T] as unknown as R);
+
+const identity = <T>(item: T) => item;
+
+/**
+ * 按键分组
+ * @param items
+ * @param selector
+ * @description 返回无原型的对象
+ * @example groupBy(users, 'role') // { admin: [...], member: [...] }
+ * @example groupBy([1.2, 1.5, 2.1], Math.floor) // { 1: [1.2, 1.5], 2: [2.1] }
+ */
+export const groupBy = <
+  T,
+  S extends Selector<T, PropertyKey>,
+  K extends PropertyKey = SelectorResult<T, S> & PropertyKey
+>(
+  items: Iterable<T>,
+  selector: S
+): Partial<Record<K, T[]>> => {
+  const select = toSelector<T, PropertyKey>(selector);
+  // 无原型对象，键与 `Object.prototype` 上的属性同名时不会冲突
+  const result = Object.create(null) as Partial<Record<K, T[]>>;
+  for (const item of items) {
+    const key = select(item) as K;
+    const group = result[key];
+    if (group) group.push(item);
+    else result[key] = [item];
+  }
+  return result;
+};
+
+/**
+ * 按键索引，键相同时保留最后一项
+ * @param items
+ * @param selector
+ * @description 返回无原型的对象
+ * @example keyBy(users, 'id') // { 1: {...}, 2: {...} }
+ */
+export const keyBy = <
+  T,
+  S extends Selector<T, PropertyKey>,
+  K extends PropertyKey = SelectorResult<T, S> & PropertyKey
+>(
+  items: Iterable<T>,
+  selector: S
+): Partial<Record<K, T>> => {
+  const select = toSelector<T, PropertyKey>(selector);
+  const result = Object.create(null) as Partial<Record<K, T>>;
+  for (const item of items) {
+    result[select(item) as K] = item;
+  }
+  return result;
+};
+
+/**
+ * 按条件拆分为满足与不满足的两组，类型守卫可收窄两组的类型
+ * @param items
+ * @param predicate
+ * @example const [strings, rest] = partition(values, isString);
+ */
+export function partition<T, S extends T>(
+  items: Iterable<T>,
+  predicate: (item: T, index: number) => item is S
+): [S[], Exclude<T, S>[]];
+export function partition<T>(
+  items: Iterable<T>,
+  predicate: (item: T, index: number) => boolean
+): [T[], T[]];
+export function partition<T>(
+  items: Iterable<T>,
+  predicate: (item: T, index: number) => boolean
+): [T[], T[]] {
+  const matched: T[] = [];
+  const rest: T[] = [];
+  let index = 0;
+  for (const item of items) {
+    (predicate(item, index++) ? matched : rest).push(item);
+  }
+  return [matched, rest];
+}
+
+/**
+ * 按大小分块，最后一块可能不足
+ * @param items
+ * @param size 大于等于 1 的整数
+ * @example chunk([1, 2, 3], 2) // [[1, 2], [3]]
+ */
+export const chunk = <T>(items: Iterable<T>, size: number): T[][] => {
+  if (!Number.isInteger(size) || size < 1)
+    throw new RangeError(
+      `Expected size to be a positive integer, received ${size}`
+    );
+  const result: T[][] = [];
+  let current: T[] = [];
+  for (const item of items) {
+    current.push(item);
+    if (current.length === size) {
+      result.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) result.push(current);
+  return result;
+};
+
+/**
+ * Options of `uniqBy`
+ */
+export interface UniqByOptions<R> {
+  /**
+   * Compare the selected values, `true` means `isEquals`, default SameValueZero
+   * @description 自定义比较时复杂度为 O(n²)
+   */
+  equals?: boolean | ((a: R, b: R) => boolean);
+}
+
+/**
+ * 去重，保留第一次出现的项
+ * @param items
+ * @param selector 默认比较项本身
+ * @param options
+ * @example uniqBy(users, 'id')
+ * @example uniqBy([{ a: 1 }, { a: 1 }], undefined, { equals: true }) // [{ a: 1 }]
+ */
+export const uniqBy = <T, R = T>(
+  items: Iterable<T>,
+  selector: Selector<T, R> = identity as (item: T) => R,
+  options: UniqByOptions<R> = {}
+): T[] => {
+  const { equals = false } = options;
+  const select = toSelector(selector);
+  const result: T[] = [];
+  if (!equals) {
+    const seen = new Set<unknown>();
+    for (const item of items) {
+      const key = select(item);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      result.push(item);
+    }
+    return result;
+  }
+  const compare = isFunction(equals) ? equals : isEquals;
+  const keys: R[] = [];
+  for (const item of items) {
+    const key = select(item);
+    if (keys.some((it) => compare(it, key))) continue;
+    keys.push(key);
+    result.push(item);
+  }
+  return result;
+};
+
+/**
+ * A sort criterion of `sortBy`
+ */
+export type SortCriterion<T> =
+  | Selector<T>
+  | { by: Selector<T>; order?: 'asc' | 'desc' };
+
+const isMissing = (value: unknown) =>
+  value === null || value === void 0 || Number.isNaN(value);
+
+const compareValues = (a: unknown, b: unknown) => {
+  const x = a instanceof Date ? a.getTime() : (a as number);
+  const y = b instanceof Date ? b.getTime() : (b as number);
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+/**
+ * 按多个条件稳定排序，返回新数组
+ * @param items
+ * @param criteria 依次比较，默认升序
+ * @example sortBy(users, 'age', { by: (u) => u.name, order: 'desc' })
+ */
+export const sortBy = <T>(
+  items: Iterable<T>,
+  ...criteria: SortCriterion<T>[]
+): T[] => {
+  const comparators = (criteria.length > 0 ? criteria : [identity]).map(
+    (criterion) => {
+      const { by, order = 'asc' } =
+        typeof criterion === 'object' ? criterion : { by: criterion };
+      return {
+        select: toSelector(by as Selector<T>),
+        direction: order === 'desc' ? -1 : 1,
+      };
+    }
+  );
+  // 预先计算比较值，并以原始位置保证稳定
+  return Array.from(items, (item, index) => ({
+    item,
+    index,
+    values: comparators.map(({ select }) => select(item)),
+  }))
+    .sort((a, b) => {
+      for (let i = 0; i < comparators.length; i++) {
+        const x = a.values[i];
+        const y = b.values[i];
+        // `null`、`undefined` 与 `NaN` 不受排序方向影响，始终排在最后
+        if (isMissing(x) || isMissing(y)) {
+          if (isMissing(x) && isMissing(y)) continue;
+          return isMissing(x) ? 1 : -1;
+        }
+        const result = compareValues(x, y) * comparators[i].direction;
+        if (result !== 0) return result;
+      }
+      return a.index - b.index;
+    })
+    .map(({ item }) => item);
+};
+
+/**
+ * 按位置组合多个集合，长度以最短的为准
+ * @param iterables
+ * @example zip([1, 2], ['a', 'b']) // [[1, 'a'], [2, 'b']]
+ */
+export const zip = <T extends unknown[]>(
+  ...iterables: { [K in keyof T]: Iterable<T[K]> }
+): T[] => {
+  const iterators = iterables.map((it) => it[Symbol.iterator]());
+  const result: T[] = [];
+  if (iterators.length === 0) return result;
+  for (;;) {
+    const steps = iterators.map((it) => it.next());
+    if (steps.some((step) => step.done)) return result;
+    result.push(steps.map((step) => step.value) as T);
+  }
+};
+
+/**
+ * `zip` 的逆操作
+ * @param tuples
+ * @example unzip([[1, 'a'], [2, 'b']]) // [[1, 2], ['a', 'b']]
+ */
+export const unzip = <T extends unknown[]>(
+  tuples: Iterable<T>
+): { [K in keyof T]: T[K][] } => {
+  const result: unknown[][] = [];
+  for (const tuple of tuples) {
+    tuple.forEach((value, index) => {
+      if (result[index]) result[index].push(value);
+      else result[index] = [value];
+    });
+  }
+  return result as { [K in keyof T]: T[K][] };
+};
+
+/**
+ * 返回 `items` 中键不在 `others` 中的项
+ * @param items
+ * @param others
+ * @param selector 默认比较项本身
+ * @example difference(users, removed, 'id')
+ */
+export const difference = <T>(
+  items: Iterable<T>,
+  others: Iterable<T>,
+  selector: Selector<T> = identity
+): T[] => {
+  const select = toSelector(selector);
+  const keys = new Set(Array.from(others, select));
+  return Array.from(items).filter((item) => !keys.has(select(item)));
+};
+
+/**
+ * 返回 `items` 中键同时存在于 `others` 中的项
+ * @param items
+ * @param others
+ * @param selector 默认比较项本身
+ * @example intersection(users, selected, (user) => user.id)
+ */
+export const intersection = <T>(
+  items: Iterable<T>,
+  others: Iterable<T>,
+  selector: Selector<T> = identity
+): T[] => {
+  const select = toSelector(selector);
+  const keys = new Set(Array.from(others, select));
+  return Array.from(items).filter((item) => keys.has(select(item)));
+};
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect, expectTypeOf } = import.meta.vitest;
+
+  const users = [
+    { id: 1, name: 'b', role: 'admin' as const, age: 30 },
+    { id: 2, name: 'a', role: 'member' as const, age: 20 },
+    { id: 3, name: 'c', role: 'member' as const, age: 30 },
+  ];
+
+  describe('Tests', async () => {
+    const { isString } = await import('./utilities.ts');
+    it('groupBy and keyBy', () => {
+      const grouped = groupBy(users, 'role');
+      expectTypeOf(grouped).toEqualTypeOf<
+        Partial<Record<'admin' | 'member', (typeof users)[number][]>>
+      >();
+      expect(grouped).toEqual({
+        admin: [users[0]],
+        member: [users[1], users[2]],
+      });
+      expect(groupBy(new Set([1.2, 1.5, 2.1]), Math.floor)).toEqual({
+        1: [1.2, 1.5],
+        2: [2.1],
+      });
+      expect(keyBy(users, (user) => user.name)).toEqual({
+        a: users[1],
+        b: users[0],
+        c: users[2],
+      });
+    });
+    it('keys inherited from Object.prototype', () => {
+      const tags = [{ tag: 'constructor' }, { tag: '__proto__' }];
+      const grouped = groupBy(tags, 'tag');
+      expect(Object.keys(grouped)).toEqual(['constructor', '__proto__']);
+      expect(grouped.constructor).toEqual([tags[0]]);
+      expect(grouped.__proto__).toEqual([tags[1]]);
+      expect(groupBy(['toString', 'toString'], (it) => it).toString).toEqual([
+        'toString',
+        'toString',
+      ]);
+      const keyed = keyBy(tags, 'tag');
+      expect(Object.getPrototypeOf(keyed)).toBe(null);
+      expect(Object.keys(keyed)).toEqual(['constructor', '__proto__']);
+      expect(keyed.__proto__).toBe(tags[1]);
+      expect(keyBy([], 'tag').toString).toBeUndefined();
+    });
+    it('partition', () => {
+      const values: Array<string | number> = ['a', 1, 'b', 2];
+      const [strings, rest] = partition(values, isString);
+      expectTypeOf(strings).toEqualTypeOf<string[]>();
+      expectTypeOf(rest).toEqualTypeOf<number[]>();
+      expect([strings, rest]).toEqual([
+        ['a', 'b'],
+        [1, 2],
+      ]);
+      expect(partition([1, 2, 3], (_, index) => index > 0)).toEqual([
+        [2, 3],
+        [1],
+      ]);
+    });
+    it('chunk', () => {
+      expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+      expect(chunk([], 2)).toEqual([]);
+      expect(() => chunk([1], 0)).toThrow(RangeError);
+    });
+    it('uniqBy', () => {
+      expect(uniqBy([1, 2, 1, NaN, NaN])).toEqual([1, 2, NaN]);
+      expect(uniqBy(users, 'age')).toEqual([users[0], users[1]]);
+      const points = [{ x: 1 }, { x: 1 }, { x: 2 }];
+      expect(uniqBy(points)).toHaveLength(3);
+      expect(uniqBy(points, undefined, { equals: true })).toEqual([
+        { x: 1 },
+        { x: 2 },
+      ]);
+      expect(
+        uniqBy(['a', 'A', 'b'], undefined, {
+          equals: (a, b) => a.toLowerCase() === b.toLowerCase(),
+        })
+      ).toEqual(['a', 'b']);
+    });
+    it('sortBy', () => {
+      expect(sortBy([3, 1, 2])).toEqual([1, 2, 3]);
+      expect(
+        sortBy(users, { by: 'age', order: 'desc' }, 'name').map((it) => it.id)
+      ).toEqual([1, 3, 2]);
+      // 稳定排序
+      expect(sortBy(users, 'age').map((it) => it.id)).toEqual([2, 1, 3]);
+      expect(
+        sortBy([2, null, 1, undefined, NaN], { by: (v) => v, order: 'desc' })
+      ).toEqual([2, 1, null, undefined, NaN]);
+      expect(
+        sortBy([new Date(2), new Date(1)], (it) => it).map((it) => it.getTime())
+      ).toEqual([1, 2]);
+      expect(sortBy(['b', 'a', 'c'])).toEqual(['a', 'b', 'c']);
+    });
+    it('zip and unzip', () => {
+      const zipped = zip([1, 2, 3], new Set(['a', 'b']));
+      expectTypeOf(zipped).toEqualTypeOf<[number, string][]>();
+      expect(zipped).toEqual([
+        [1, 'a'],
+        [2, 'b'],
+      ]);
+      const [numbers, strings] = unzip(zipped);
+      expectTypeOf(numbers).toEqualTypeOf<number[]>();
+      expect([numbers, strings]).toEqual([
+        [1, 2],
+        ['a', 'b'],
+      ]);
+      expect(zip()).toEqual([]);
+    });
+    it('difference and intersection', () => {
+      expect(difference([1, 2, 3], [2])).toEqual([1, 3]);
+      expect(difference(users, [{ ...users[0] }], 'id')).toEqual([
+        users[1],
+        users[2],
+      ]);
+      expect(intersection(users, [{ ...users[2] }], (user) => user.id)).toEqual(
+        [users[2]]
+      );
+    });
+  });
+}
@@ -0,0 +1,286 @@
+import { AbortError, TimeoutError } from './utilities.ts';
+
+/**
+ * Map of event names to payload types
+ * @example type Events = { login: { id: string }; logout: undefined };
+ */
+export type EventMap = Record<PropertyKey, unknown>;
+
+export type EventHandler<T> = (payload: T) => void;
+
+/**
+ * Listener of all events, registered with `*`
+ */
+export type WildcardHandler<Events extends EventMap> = (
+  type: keyof Events,
+  payload: Events[keyof Events]
+) => void;
+
+type EmitArgs<T> = undefined extends T ? [payload?: T] : [payload: T];
+
+/**
+ * Options of `createEmitter`
+ */
+export interface EmitterOptions {
+  /**
+   * Called when a listener throws, default `console.error`
+   * @description 监听器抛出的错误不会影响其他监听器以及 `emit` 的调用方
+   */
+  onError?: (error: unknown, type: PropertyKey) => void;
+}
+
+/**
+ * Options of `Emitter.waitFor`
+ */
+export interface WaitForOptions {
+  /**
+   * Reject with `AbortError` when aborted
+   */
+  signal?: AbortSignal;
+  /**
+   * Reject with `TimeoutError` after the given milliseconds
+   */
+  timeout?: number;
+}
+
+/**
+ * A typed event emitter
+ */
+export interface Emitter<Events extends EventMap> {
+  /**
+   * Add a listener, returns a function to remove it
+   */
+  on<K extends keyof Events>(
+    type: K,
+    handler: EventHandler<Events[K]>
+  ): () => void;
+  on(type: '*', handler: WildcardHandler<Events>): () => void;
+  /**
+   * Add a listener which is removed after the first call
+   */
+  once<K extends keyof Events>(
+    type: K,
+    handler: EventHandler<Events[K]>
+  ): () => void;
+  once(type: '*', handler: WildcardHandler<Events>): () => void;
+  off<K extends keyof Events>(type: K, handler: EventHandler<Events[K]>): void;
+  off(type: '*', handler: WildcardHandler<Events>): void;
+  emit<K extends keyof Events>(type: K, ...args: EmitArgs<Events[K]>): void;
+  /**
+   * Resolve with the payload of the next event
+   */
+  waitFor<K extends keyof Events>(
+    type: K,
+    options?: WaitForOptions
+  ): Promise<Events[K]>;
+  /**
+   * Remove all listeners of the event, or all listeners if omitted
+   */
+  clear(type?: keyof Events | '*'): void;
+  /**
+   * Number of listeners of the event
+   */
+  listenerCount(type: keyof Events | '*'): number;
+}
+
+interface Listener {
+  handler: (...args: never[]) => void;
+  once: boolean;
+}
+
+/**
+ * 创建一个类型化的事件发射器
+ * @param options
+ * @example
+ * const bus = createEmitter<{ login: { id: string }; logout: undefined }>();
+ * const off = bus.on('login', ({ id }) => console.log(id));
+ * bus.emit('login', { id: '1' });
+ * bus.emit('logout');
+ */
+export const createEmitter = <Events extends EventMap>(
+  options: EmitterOptions = {}
+): Emitter<Events> => {
+  const { onError = console.error } = options;
+  // 修改时替换数组，`emit` 期间增删监听器不影响本次调用
+  const listeners = new Map<PropertyKey, Listener[]>();
+
+  const add = (type: PropertyKey, listener: Listener) => {
+    listeners.set(type, [...(listeners.get(type) ?? []), listener]);
+    return () => remove(type, listener);
+  };
+  const remove = (type: PropertyKey, listener: Listener) => {
+    const current = listeners.get(type);
+    if (!current?.includes(listener)) return;
+    const next = current.filter((it) => it !== listener);
+    if (next.length === 0) listeners.delete(type);
+    else listeners.set(type, next);
+  };
+
+  const emitter: Emitter<Events> = {
+    on: (type: PropertyKey, handler: Listener['handler']) =>
+      add(type, { handler, once: false }),
+    once: (type: PropertyKey, handler: Listener['handler']) =>
+      add(type, { handler, once: true }),
+    off: (type: PropertyKey, handler: Listener['handler']) => {
+      const listener = listeners
+        .get(type)
+        ?.find((it) => it.handler === handler);
+      if (listener) remove(type, listener);
+    },
+    emit: (type, ...args) => {
+      const invoke = (key: PropertyKey, params: unknown[]) => {
+        for (const listener of listeners.get(key) ?? []) {
+          if (listener.once) remove(key, listener);
+          try {
+            (listener.handler as (...args: unknown[]) => void)(...params);
+          } catch (error) {
+            onError(error, type);
+          }
+        }
+      };
+      invoke(type, args.slice(0, 1));
+      invoke('*', [type, args[0]]);
+    },
+    waitFor: (type, options = {}) => {
+      const { signal, timeout } = options;
+      return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(new AbortError(signal.reason));
+          return;
+        }
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const cleanup = () => {
+          off();
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        };
+        const onAbort = () => {
+          cleanup();
+          reject(new AbortError(signal?.reason));
+        };
+        const off = emitter.once(type, (payload) => {
+          cleanup();
+          resolve(payload);
+        });
+        if (timeout !== void 0)
+          timer = setTimeout(() => {
+            cleanup();
+            reject(new TimeoutError(timeout));
+          }, timeout);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    },
+    clear: (type) => {
+      if (type === void 0) listeners.clear();
+      else listeners.delete(type);
+    },
+    listenerCount: (type) => listeners.get(type)?.length ?? 0,
+  };
+  return emitter;
+};
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect, expectTypeOf, vi, afterEach } = import.meta
+    .vitest;
+
+  type Events = { login: { id: string }; logout: undefined; count: number };
+
+  describe('Tests', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+    it('on, off and emit', () => {
+      const emitter = createEmitter<Events>();
+      const handler = vi.fn();
+      const off = emitter.on('login', handler);
+      emitter.on('count', handler);
+      emitter.emit('login', { id: '1' });
+      emitter.emit('count', 2);
+      expect(handler.mock.calls).toEqual([[{ id: '1' }], [2]]);
+      off();
+      emitter.off('count', handler);
+      emitter.emit('login', { id: '2' });
+      emitter.emit('count', 3);
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(emitter.listenerCount('login')).toBe(0);
+    });
+    it('types', () => {
+      const emitter = createEmitter<Events>();
+      emitter.on('login', (payload) => {
+        expectTypeOf(payload).toEqualTypeOf<{ id: string }>();
+      });
+      emitter.on('*', (type, payload) => {
+        expectTypeOf(type).toEqualTypeOf<keyof Events>();
+        expectTypeOf(payload).toEqualTypeOf<Events[keyof Events]>();
+      });
+      emitter.emit('logout');
+      // @ts-expect-error payload is required
+      emitter.emit('count');
+    });
+    it('once and wildcard', () => {
+      const emitter = createEmitter<Events>();
+      const once = vi.fn();
+      const wildcard = vi.fn();
+      emitter.once('count', once);
+      emitter.on('*', wildcard);
+      emitter.emit('count', 1);
+      emitter.emit('count', 2);
+      emitter.emit('logout');
+      expect(once.mock.calls).toEqual([[1]]);
+      expect(wildcard.mock.calls).toEqual([
+        ['count', 1],
+        ['count', 2],
+        ['logout', undefined],
+      ]);
+      const onceWildcard = vi.fn();
+      emitter.once('*', onceWildcard);
+      emitter.off('*', wildcard);
+      emitter.emit('count', 3);
+      emitter.emit('count', 4);
+      expect(onceWildcard.mock.calls).toEqual([['count', 3]]);
+      expect(wildcard).toHaveBeenCalledTimes(3);
+    });
+    it('isolates listener errors', () => {
+      const onError = vi.fn();
+      const emitter = createEmitter<Events>({ onError });
+      const error = new Error('boom');
+      const after = vi.fn();
+      emitter.on('count', () => {
+        throw error;
+      });
+      emitter.on('count', after);
+      expect(() => emitter.emit('count', 1)).not.toThrow();
+      expect(after).toHaveBeenCalledWith(1);
+      expect(onError).toHaveBeenCalledWith(error, 'count');
+    });
+    it('listeners changed during emit', () => {
+      const emitter = createEmitter<Events>();
+      const second = vi.fn();
+      emitter.on('count', () => {
+        emitter.off('count', second);
+        emitter.on('count', second);
+      });
+      emitter.on('count', second);
+      emitter.emit('count', 1);
+      expect(second).toHaveBeenCalledTimes(1);
+      emitter.clear();
+      expect(emitter.listenerCount('count')).toBe(0);
+    });
+    it('waitFor', async () => {
+      vi.useFakeTimers();
+      const emitter = createEmitter<Events>();
+      const login = emitter.waitFor('login');
+      emitter.emit('login', { id: '1' });
+      expect(await login).toEqual({ id: '1' });
+      const timeout = emitter.waitFor('count', { timeout: 100 });
+      vi.advanceTimersByTime(100);
+      await expect(timeout).rejects.toBeInstanceOf(TimeoutError);
+      const controller = new AbortController();
+      const aborted = emitter.waitFor('count', { signal: controller.signal });
+      controller.abort();
+      await expect(aborted).rejects.toBeInstanceOf(AbortError);
+      expect(emitter.listenerCount('count')).toBe(0);
+    });
+  });
+}
@@ -0,0 +1,522 @@
+import { isDef, padString } from './utilities.ts';
+
+/**
+ * Options of `formatDate` and `parseDate`
+ */
+export interface DateFormatOptions {
+  /**
+   * Locale of month and weekday names, default `en-US`
+   */
+  locale?: string;
+  /**
+   * IANA time zone, default the local time zone
+   * @example 'Asia/Shanghai'
+   */
+  timeZone?: string;
+}
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  /**
+   * 0 为星期日
+   */
+  weekday: number;
+  /**
+   * 相对 UTC 的偏移分钟数，东八区为 480
+   */
+  offset: number;
+}
+
+const TOKEN_REGEX =
+  /\[([^\]]*)]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|m|ss|s|SSS|A|a|ZZ|Z/g;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const getFormatter = (locale: string, options: Intl.DateTimeFormatOptions) => {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(locale, options);
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+const toDate = (value: Date | number | string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime()))
+    throw new RangeError(`Invalid date: ${String(value)}`);
+  return date;
+};
+
+const getParts = (date: Date, timeZone?: string): DateParts => {
+  if (!isDef(timeZone))
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      millisecond: date.getMilliseconds(),
+      weekday: date.getDay(),
+      offset: -date.getTimezoneOffset(),
+    };
+  const parts = Object.fromEntries(
+    getFormatter('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  const millisecond = ((date.getTime() % 1000) + 1000) % 1000;
+  const utc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    millisecond
+  );
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond,
+    weekday: new Date(utc).getUTCDay(),
+    offset: Math.round((utc - date.getTime()) / 60000),
+  };
+};
+
+const formatOffset = (offset: number, separator: string) => {
+  const abs = Math.abs(offset);
+  return `${offset < 0 ? '-' : '+'}${padString(
+    Math.floor(abs / 60),
+    2,
+    '0'
+  )}${separator}${padString(abs % 60, 2, '0')}`;
+};
+
+/**
+ * 按模式格式化日期
+ * @param value
+ * @param pattern 默认 `YYYY-MM-DD HH:mm:ss`，`[]` 中的内容原样输出
+ * @param options
+ * @description
+ * 支持的 token：`YYYY` `YY` `MMMM` `MMM` `MM` `M` `DD` `D` `dddd` `ddd` `HH` `H` `hh` `h` `mm` `m` `ss` `s` `SSS` `A` `a` `ZZ` `Z`，
+ * 日期无效时抛出 `RangeError`
+ * @example formatDate(date, 'YYYY-MM-DD HH:mm') // '2024-01-02 03:04'
+ * @example formatDate(date, 'MMMM D, YYYY [at] h:mm A', { timeZone: 'America/New_York' })
+ */
+export const formatDate = (
+  value: Date | number | string,
+  pattern = 'YYYY-MM-DD HH:mm:ss',
+  options: DateFormatOptions = {}
+): string => {
+  const { locale = 'en-US', timeZone } = options;
+  const date = toDate(value);
+  const parts = getParts(date, timeZone);
+  const name = (key: 'month' | 'weekday', style: 'long' | 'short') =>
+    getFormatter(locale, { [key]: style, timeZone }).format(date);
+  const hour12 = parts.hour % 12 || 12;
+  return pattern.replace(TOKEN_REGEX, (token, escaped?: string) => {
+    if (isDef(escaped)) return escaped;
+    switch (token) {
+      case 'YYYY':
+        return padString(parts.year, 4, '0');
+      case 'YY':
+        return padString(parts.year % 100, 2, '0');
+      case 'MMMM':
+        return name('month', 'long');
+      case 'MMM':
+        return name('month', 'short');
+      case 'MM':
+        return padString(parts.month, 2, '0');
+      case 'M':
+        return String(parts.month);
+      case 'DD':
+        return padString(parts.day, 2, '0');
+      case 'D':
+        return String(parts.day);
+      case 'dddd':
+        return name('weekday', 'long');
+      case 'ddd':
+        return name('weekday', 'short');
+      case 'HH':
+        return padString(parts.hour, 2, '0');
+      case 'H':
+        return String(parts.hour);
+      case 'hh':
+        return padString(hour12, 2, '0');
+      case 'h':
+        return String(hour12);
+      case 'mm':
+        return padString(parts.minute, 2, '0');
+      case 'm':
+        return String(parts.minute);
+      case 'ss':
+        return padString(parts.second, 2, '0');
+      case 's':
+        return String(parts.second);
+      case 'SSS':
+        return padString(parts.millisecond, 3, '0');
+      case 'A':
+        return parts.hour < 12 ? 'AM' : 'PM';
+      case 'a':
+        return parts.hour < 12 ? 'am' : 'pm';
+      case 'ZZ':
+        return formatOffset(parts.offset, '');
+      default:
+        return formatOffset(parts.offset, ':');
+    }
+  });
+};
+
+const PARSE_PATTERNS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  YY: '(\\d{2})',
+  MM: '(\\d{2})',
+  M: '(\\d{1,2})',
+  DD: '(\\d{2})',
+  D: '(\\d{1,2})',
+  HH: '(\\d{2})',
+  H: '(\\d{1,2})',
+  hh: '(\\d{2})',
+  h: '(\\d{1,2})',
+  mm: '(\\d{2})',
+  m: '(\\d{1,2})',
+  ss: '(\\d{2})',
+  s: '(\\d{1,2})',
+  SSS: '(\\d{3})',
+  A: '(AM|PM|am|pm)',
+  a: '(AM|PM|am|pm)',
+  ZZ: '(Z|[+-]\\d{4})',
+  Z: '(Z|[+-]\\d{2}:\\d{2})',
+};
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 按 `formatDate` 的模式解析日期，不匹配或日期无效时返回 `null`
+ * @param input
+ * @param pattern 默认 `YYYY-MM-DD HH:mm:ss`，不支持月份及星期名称
+ * @param options 未包含 `Z` 时按 `timeZone` 解析，默认本地时区
+ * @example parseDate('2024-01-02 03:04', 'YYYY-MM-DD HH:mm')
+ */
+export const parseDate = (
+  input: string,
+  pattern = 'YYYY-MM-DD HH:mm:ss',
+  options: Pick<DateFormatOptions, 'timeZone'> = {}
+): Date | null => {
+  const tokens: string[] = [];
+  let source = '';
+  let lastIndex = 0;
+  for (const match of pattern.matchAll(TOKEN_REGEX)) {
+    source += escapeRegExp(pattern.slice(lastIndex, match.index));
+    lastIndex = match.index! + match[0].length;
+    if (isDef(match[1])) {
+      source += escapeRegExp(match[1]);
+      continue;
+    }
+    const token = match[0];
+    if (!Reflect.has(PARSE_PATTERNS, token))
+      throw new RangeError(`Unsupported token in parseDate: ${token}`);
+    tokens.push(token);
+    source += PARSE_PATTERNS[token];
+  }
+  source += escapeRegExp(pattern.slice(lastIndex));
+  const matched = new RegExp(`^${source}$`).exec(input.trim());
+  if (!matched) return null;
+
+  const parts = { year: 1970, month: 1, day: 1, hour: 0, minute: 0 };
+  let second = 0;
+  let millisecond = 0;
+  let meridiem: string | undefined;
+  let offset: number | undefined;
+  tokens.forEach((token, index) => {
+    const value = matched[index + 1];
+    const number = Number(value);
+    switch (token) {
+      case 'YYYY':
+        parts.year = number;
+        break;
+      case 'YY':
+        parts.year = 2000 + number;
+        break;
+      case 'MM':
+      case 'M':
+        parts.month = number;
+        break;
+      case 'DD':
+      case 'D':
+        parts.day = number;
+        break;
+      case 'HH':
+      case 'H':
+      case 'hh':
+      case 'h':
+        parts.hour = number;
+        break;
+      case 'mm':
+      case 'm':
+        parts.minute = number;
+        break;
+      case 'ss':
+      case 's':
+        second = number;
+        break;
+      case 'SSS':
+        millisecond = number;
+        break;
+      case 'A':
+      case 'a':
+        meridiem = value.toUpperCase();
+        break;
+      default: {
+        if (value === 'Z') {
+          offset = 0;
+          break;
+        }
+        const digits = value.replace(':', '');
+        const minutes =
+          Number(digits.slice(1, 3)) * 60 + Number(digits.slice(3, 5));
+        offset = value[0] === '-' ? -minutes : minutes;
+      }
+    }
+  });
+  if (isDef(meridiem)) {
+    if (parts.hour < 1 || parts.hour > 12) return null;
+    parts.hour = (parts.hour % 12) + (meridiem === 'PM' ? 12 : 0);
+  }
+
+  const utc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    second,
+    millisecond
+  );
+  // 超出范围的值（例如 2 月 30 日）会被 Date 进位，进位后视为无效
+  const normalized = new Date(utc);
+  if (
+    normalized.getUTCFullYear() !== parts.year ||
+    normalized.getUTCMonth() + 1 !== parts.month ||
+    normalized.getUTCDate() !== parts.day ||
+    normalized.getUTCHours() !== parts.hour ||
+    normalized.getUTCMinutes() !== parts.minute ||
+    normalized.getUTCSeconds() !== second
+  )
+    return null;
+  if (isDef(offset)) return new Date(utc - offset * 60000);
+  const { timeZone } = options;
+  if (!isDef(timeZone))
+    return new Date(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      second,
+      millisecond
+    );
+  // 先按猜测的偏移计算，再用该时刻的实际偏移修正（夏令时）
+  const guess = utc - getParts(new Date(utc), timeZone).offset * 60000;
+  return new Date(utc - getParts(new Date(guess), timeZone).offset * 60000);
+};
+
+/**
+ * Options of `formatDuration`
+ */
+export interface DurationFormatOptions {
+  /**
+   * Maximum number of units, smaller units are truncated, default `2`
+   */
+  units?: number;
+}
+
+const DURATION_UNITS: Array<[label: string, ms: number]> = [
+  ['d', 86400000],
+  ['h', 3600000],
+  ['m', 60000],
+  ['s', 1000],
+];
+
+/**
+ * 格式化时长，最大单位之后的单位补零至两位
+ * @param ms
+ * @param options
+ * @example formatDuration(3720000) // '1h 02m'
+ * @example formatDuration(65000) // '1m 05s'
+ * @example formatDuration(450) // '450ms'
+ */
+export const formatDuration = (
+  ms: number,
+  options: DurationFormatOptions = {}
+): string => {
+  const { units = 2 } = options;
+  const sign = ms < 0 ? '-' : '';
+  let rest = Math.abs(ms);
+  if (rest < 1000) return `${sign}${Math.floor(rest)}ms`;
+  const parts: string[] = [];
+  for (const [label, size] of DURATION_UNITS) {
+    const value = Math.floor(rest / size);
+    rest -= value * size;
+    if (parts.length === 0 && value === 0) continue;
+    parts.push(
+      `${parts.length === 0 ? value : padString(value, 2, '0')}${label}`
+    );
+    if (parts.length >= units) break;
+  }
+  return sign + parts.join(' ');
+};
+
+/**
+ * Options of `formatRelative`
+ */
+export interface RelativeFormatOptions {
+  /**
+   * Default `en`
+   */
+  locale?: string;
+  /**
+   * Same as `Intl.RelativeTimeFormat`, default `always`
+   * @description 为 `auto` 时输出 `yesterday`、`tomorrow` 等
+   */
+  numeric?: Intl.RelativeTimeFormatNumeric;
+}
+
+const RELATIVE_UNITS: Array<[unit: Intl.RelativeTimeFormatUnit, ms: number]> = [
+  ['year', 31536000000],
+  ['month', 2592000000],
+  ['week', 604800000],
+  ['day', 86400000],
+  ['hour', 3600000],
+  ['minute', 60000],
+  ['second', 1000],
+];
+
+/**
+ * 格式化相对时间
+ * @param value
+ * @param now 当前时间，默认 `Date.now()`
+ * @param options
+ * @example formatRelative(Date.now() - 180000) // '3 minutes ago'
+ * @example formatRelative(new Date('2024-01-03'), new Date('2024-01-01')) // 'in 2 days'
+ */
+export const formatRelative = (
+  value: Date | number | string,
+  now: Date | number = Date.now(),
+  options: RelativeFormatOptions = {}
+): string => {
+  const { locale = 'en', numeric = 'always' } = options;
+  const diff = toDate(value).getTime() - toDate(now).getTime();
+  const formatter = new Intl.RelativeTimeFormat(locale, { numeric });
+  for (const [unit, size] of RELATIVE_UNITS) {
+    if (Math.abs(diff) >= size || unit === 'second')
+      return formatter.format(Math.trunc(diff / size), unit);
+  }
+  return '';
+};
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe('Tests', () => {
+    const local = new Date(2024, 0, 2, 3, 4, 5, 6);
+    const utc = Date.UTC(2024, 6, 9, 15, 4, 5, 6);
+    it('formatDate', () => {
+      expect(formatDate(local)).toBe('2024-01-02 03:04:05');
+      expect(formatDate(local, 'YY/M/D H:m:s.SSS')).toBe('24/1/2 3:4:5.006');
+      expect(formatDate(local, '[YYYY] YYYY [at] hh:mm a')).toBe(
+        'YYYY 2024 at 03:04 am'
+      );
+      expect(() => formatDate('nope')).toThrow(RangeError);
+    });
+    it('formatDate with locale and time zone', () => {
+      expect(formatDate(utc, 'YYYY-MM-DD HH:mm Z', { timeZone: 'UTC' })).toBe(
+        '2024-07-09 15:04 +00:00'
+      );
+      expect(
+        formatDate(utc, 'ddd, MMM D h:mm A ZZ', {
+          timeZone: 'America/New_York',
+        })
+      ).toBe('Tue, Jul 9 11:04 AM -0400');
+      expect(
+        formatDate(utc, 'MMMM dddd HH:mm', {
+          locale: 'zh-CN',
+          timeZone: 'Asia/Shanghai',
+        })
+      ).toBe('七月 星期二 23:04');
+    });
+    it('parseDate', () => {
+      expect(parseDate('2024-01-02 03:04:05')).toEqual(
+        new Date(2024, 0, 2, 3, 4, 5)
+      );
+      expect(
+        parseDate('2024-07-09T15:04:05.006Z', 'YYYY-MM-DD[T]HH:mm:ss.SSSZ')
+      ).toEqual(new Date(utc));
+      expect(
+        parseDate('07/09/24 11:04 PM +0800', 'MM/DD/YY hh:mm A ZZ')
+      ).toEqual(new Date(Date.UTC(2024, 6, 9, 15, 4)));
+      expect(
+        parseDate('2024-07-09 11:04:05.006', 'YYYY-MM-DD HH:mm:ss.SSS', {
+          timeZone: 'America/New_York',
+        })
+      ).toEqual(new Date(utc));
+      expect(parseDate('2024-02-30', 'YYYY-MM-DD')).toBeNull();
+      expect(parseDate('2024-1-2', 'YYYY-MM-DD')).toBeNull();
+      expect(() => parseDate('Jan', 'MMM')).toThrow(RangeError);
+    });
+    it('round trip', () => {
+      const pattern = 'YYYY-MM-DD HH:mm:ss.SSS Z';
+      const text = formatDate(utc, pattern, { timeZone: 'Asia/Kolkata' });
+      expect(text).toBe('2024-07-09 20:34:05.006 +05:30');
+      expect(parseDate(text, pattern)).toEqual(new Date(utc));
+    });
+    it('formatDuration', () => {
+      expect(formatDuration(3720000)).toBe('1h 02m');
+      expect(formatDuration(3725000)).toBe('1h 02m');
+      expect(formatDuration(3725000, { units: 3 })).toBe('1h 02m 05s');
+      expect(formatDuration(65000)).toBe('1m 05s');
+      expect(formatDuration(5000)).toBe('5s');
+      expect(formatDuration(183600000)).toBe('2d 03h');
+      expect(formatDuration(450)).toBe('450ms');
+      expect(formatDuration(-65000)).toBe('-1m 05s');
+    });
+    it('formatRelative', () => {
+      const now = Date.UTC(2024, 0, 10);
+      expect(formatRelative(now - 180000, now)).toBe('3 minutes ago');
+      expect(formatRelative(now + 2 * 86400000, now)).toBe('in 2 days');
+      expect(formatRelative(now, now)).toBe('in 0 seconds');
+      expect(formatRelative(now - 86400000, now, { numeric: 'auto' })).toBe(
+        'yesterday'
+      );
+      expect(formatRelative(now - 400 * 86400000, new Date(now))).toBe(
+        '1 year ago'
+      );
+      expect(formatRelative(now + 3600000, now, { locale: 'zh-CN' })).toBe(
+        '1小时后'
+      );
+    });
+  });
+}
@@ -1,3 +1,20 @@
 export * from './utilities.ts'
 export * from './use-constant.ts'
-export * from './use-latest.ts'
\ No newline at end of file
+export * from './use-latest.ts'
+export * from './use-debounce.ts'
+export * as schema from './schema.ts'
+export * from './queue.ts'
+export * from './use-memoize.ts'
+export * from './use-deep-compare.ts'
+export * from './use-lifecycle.ts'
+export * from './use-async.ts'
+export * from './use-dom.ts'
+export * from './use-storage.ts'
+export * from './use-controllable-state.ts'
+export * from './format.ts'
+export * from './emitter.ts'
+export * from './use-event-bus.ts'
+export * from './store.ts'
+export * from './use-store.ts'
+export * from './collection.ts'
+export * from './patch.ts'
\ No newline at end of file
@@ -0,0 +1,460 @@
+import { deepClone, isArray, isEquals, isPlainObject } from './utilities.ts';
+
+/**
+ * A JSON Patch operation (RFC 6902)
+ */
+export type PatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+/**
+ * Thrown when an operation cannot be applied
+ */
+export class PatchError extends Error {
+  readonly operation: PatchOperation;
+  /**
+   * Index of the operation in the patch
+   */
+  readonly index: number;
+  constructor(message: string, operation: PatchOperation, index: number) {
+    super(`${message} (operation ${index}: ${operation.op} ${operation.path})`);
+    this.name = 'PatchError';
+    this.operation = operation;
+    this.index = index;
+  }
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+const escapeToken = (token: string) =>
+  token.replace(/~/g, '~0').replace(/\//g, '~1');
+
+const toPointer = (tokens: Array<string | number>) =>
+  tokens.map((token) => `/${escapeToken(String(token))}`).join('');
+
+const parsePointer = (pointer: string): string[] | null => {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) return null;
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+const isContainer = (value: unknown): value is Container =>
+  isArray(value) || isPlainObject(value);
+
+/**
+ * Options of `diff`
+ */
+export interface DiffOptions {
+  /**
+   * Emit `move` operations for reordered array items, default `false`
+   */
+  detectMoves?: boolean;
+}
+
+/**
+ * 比较两个值，返回将 `a` 转换为 `b` 的 JSON Patch 操作
+ * @param a
+ * @param b
+ * @param options
+ * @description 仅深入比较数组与普通对象，其他值（例如 Date、Map）整体替换，相等性由 `isEquals` 判断
+ * @example diff({ a: 1, b: [1] }, { a: 2, b: [1, 2] })
+ * // [{ op: 'replace', path: '/a', value: 2 }, { op: 'add', path: '/b/1', value: 2 }]
+ */
+export const diff = (
+  a: unknown,
+  b: unknown,
+  options: DiffOptions = {}
+): PatchOperation[] => {
+  const { detectMoves = false } = options;
+  const operations: PatchOperation[] = [];
+
+  const walk = (x: unknown, y: unknown, path: Array<string | number>) => {
+    if (isEquals(x, y)) return;
+    if (isArray(x) && isArray(y)) {
+      const current = x.slice();
+      if (detectMoves) {
+        for (let i = 0; i < y.length && i < current.length; i++) {
+          if (isEquals(current[i], y[i])) continue;
+          const from = current.findIndex(
+            (item, index) => index > i && isEquals(item, y[i])
+          );
+          if (from === -1) continue;
+          operations.push({
+            op: 'move',
+            from: toPointer([...path, from]),
+            path: toPointer([...path, i]),
+          });
+          current.splice(i, 0, ...current.splice(from, 1));
+        }
+      }
+      const common = Math.min(current.length, y.length);
+      for (let i = 0; i < common; i++) walk(current[i], y[i], [...path, i]);
+      // 从后往前删除，避免索引变化
+      for (let i = current.length - 1; i >= y.length; i--)
+        operations.push({ op: 'remove', path: toPointer([...path, i]) });
+      for (let i = current.length; i < y.length; i++)
+        operations.push({
+          op: 'add',
+          path: toPointer([...path, i]),
+          value: y[i],
+        });
+      return;
+    }
+    if (isPlainObject(x) && isPlainObject(y)) {
+      for (const key of Object.keys(x)) {
+        if (!Object.prototype.hasOwnProperty.call(y, key))
+          operations.push({ op: 'remove', path: toPointer([...path, key]) });
+      }
+      for (const key of Object.keys(y)) {
+        if (Object.prototype.hasOwnProperty.call(x, key))
+          walk(x[key], y[key], [...path, key]);
+        else
+          operations.push({
+            op: 'add',
+            path: toPointer([...path, key]),
+            value: y[key],
+          });
+      }
+      return;
+    }
+    operations.push({ op: 'replace', path: toPointer(path), value: y });
+  };
+
+  walk(a, b, []);
+  return operations;
+};
+
+/**
+ * 按 JSON Pointer 读取值
+ */
+const resolve = (
+  document: unknown,
+  tokens: string[]
+): { found: boolean; value?: unknown } => {
+  let current = document;
+  for (const token of tokens) {
+    if (!isContainer(current) || !hasKey(current, token))
+      return { found: false };
+    current = (current as Record<string, unknown>)[token];
+  }
+  return { found: true, value: current };
+};
+
+const isIndex = (token: string) => /^(0|[1-9]\d*)$/.test(token);
+
+const hasKey = (container: Container, token: string) =>
+  isArray(container)
+    ? isIndex(token) && Number(token) < container.length
+    : Object.prototype.hasOwnProperty.call(container, token);
+
+/**
+ * 复制路径上的容器并修改最后一层，未修改的部分保持引用
+ */
+const update = (
+  document: unknown,
+  tokens: string[],
+  modify: (container: Container, key: string) => void
+): unknown => {
+  const [key, ...rest] = tokens;
+  if (!isContainer(document)) throw new Error('Path not found');
+  const copy: Container = isArray(document)
+    ? document.slice()
+    : { ...document };
+  if (rest.length === 0) {
+    modify(copy, key);
+    return copy;
+  }
+  if (!hasKey(copy, key)) throw new Error('Path not found');
+  const record = copy as Record<string, unknown>;
+  record[key] = update(record[key], rest, modify);
+  return copy;
+};
+
+const setKey = (container: Container, key: string, value: unknown) => {
+  // 通过 setter 写入会修改对象的原型
+  if (key === '__proto__') throw new Error(`Unsafe key: ${key}`);
+  (container as Record<string, unknown>)[key] = value;
+};
+
+const addValue = (document: unknown, tokens: string[], value: unknown) => {
+  if (tokens.length === 0) return value;
+  return update(document, tokens, (container, key) => {
+    if (!isArray(container)) return setKey(container, key, value);
+    if (key === '-') container.push(value);
+    else if (isIndex(key) && Number(key) <= container.length)
+      container.splice(Number(key), 0, value);
+    else throw new Error('Invalid array index');
+  });
+};
+
+const removeValue = (document: unknown, tokens: string[]) => {
+  if (tokens.length === 0) throw new Error('Cannot remove the root');
+  return update(document, tokens, (container, key) => {
+    if (!hasKey(container, key)) throw new Error('Path not found');
+    if (isArray(container)) container.splice(Number(key), 1);
+    else delete container[key];
+  });
+};
+
+const replaceValue = (document: unknown, tokens: string[], value: unknown) => {
+  if (tokens.length === 0) return value;
+  return update(document, tokens, (container, key) => {
+    if (!hasKey(container, key)) throw new Error('Path not found');
+    setKey(container, key, value);
+  });
+};
+
+const parseOperation = (operation: PatchOperation) => {
+  const path = parsePointer(operation.path);
+  const from = 'from' in operation ? parsePointer(operation.from) : [];
+  if (!path || !from) throw new Error('Invalid JSON Pointer');
+  return { path, from };
+};
+
+const applyOperation = (document: unknown, operation: PatchOperation) => {
+  const { path, from } = parseOperation(operation);
+  switch (operation.op) {
+    case 'add':
+      return addValue(document, path, deepClone(operation.value));
+    case 'remove':
+      return removeValue(document, path);
+    case 'replace':
+      return replaceValue(document, path, deepClone(operation.value));
+    case 'move': {
+      if (operation.path === operation.from) return document;
+      if (operation.path.startsWith(`${operation.from}/`))
+        throw new Error('Cannot move a value into itself');
+      const source = resolve(document, from);
+      if (!source.found) throw new Error('Path not found');
+      return addValue(removeValue(document, from), path, source.value);
+    }
+    case 'copy': {
+      const source = resolve(document, from);
+      if (!source.found) throw new Error('Path not found');
+      return addValue(document, path, deepClone(source.value));
+    }
+    case 'test': {
+      const target = resolve(document, path);
+      if (!target.found || !isEquals(target.value, operation.value))
+        throw new Error('Test failed');
+      return document;
+    }
+    default:
+      throw new Error('Unknown operation');
+  }
+};
+
+/**
+ * 应用 JSON Patch 并返回新值，不会修改 `document`，未修改的部分保持引用
+ * @param document
+ * @param operations
+ * @description 任一操作失败（包括 `test` 不通过）时抛出 `PatchError`
+ * @example applyPatch({ a: 1 }, [{ op: 'replace', path: '/a', value: 2 }]) // { a: 2 }
+ */
+export const applyPatch = <T>(
+  document: T,
+  operations: readonly PatchOperation[]
+): T =>
+  operations.reduce<unknown>((current, operation, index) => {
+    try {
+      return applyOperation(current, operation);
+    } catch (error) {
+      throw new PatchError(
+        error instanceof Error ? error.message : String(error),
+        operation,
+        index
+      );
+    }
+  }, document) as T;
+
+/**
+ * 生成撤销 `operations` 的 JSON Patch
+ * @param document 应用 `operations` 之前的值
+ * @param operations
+ * @example
+ * const next = applyPatch(prev, patch);
+ * applyPatch(next, invertPatch(prev, patch)) // 与 prev 相等
+ */
+export const invertPatch = (
+  document: unknown,
+  operations: readonly PatchOperation[]
+): PatchOperation[] => {
+  const inverted: PatchOperation[][] = [];
+  let current = document;
+  operations.forEach((operation, index) => {
+    const { path } = parseOperation(operation);
+    const previous = resolve(current, path);
+    const parent = resolve(current, path.slice(0, -1)).value;
+    // 向数组添加时原有的元素后移，不会被覆盖
+    const overwrites = previous.found && !isArray(parent);
+    const restore = (): PatchOperation[] =>
+      overwrites
+        ? [{ op: 'add', path: operation.path, value: previous.value }]
+        : [];
+    let inverse: PatchOperation[];
+    switch (operation.op) {
+      case 'add':
+      case 'copy': {
+        const target =
+          isArray(parent) && path[path.length - 1] === '-'
+            ? toPointer([...path.slice(0, -1), parent.length])
+            : operation.path;
+        inverse =
+          path.length === 0
+            ? [{ op: 'replace', path: '', value: current }]
+            : overwrites
+            ? [{ op: 'replace', path: target, value: previous.value }]
+            : [{ op: 'remove', path: target }];
+        break;
+      }
+      case 'remove':
+        inverse = [{ op: 'add', path: operation.path, value: previous.value }];
+        break;
+      case 'replace':
+        inverse = [
+          { op: 'replace', path: operation.path, value: previous.value },
+        ];
+        break;
+      case 'move':
+        inverse =
+          operation.path === operation.from
+            ? []
+            : [
+                { op: 'move', from: operation.path, path: operation.from },
+                ...restore(),
+              ];
+        break;
+      default:
+        inverse = [operation];
+    }
+    try {
+      current = applyOperation(current, operation);
+    } catch (error) {
+      throw new PatchError(
+        error instanceof Error ? error.message : String(error),
+        operation,
+        index
+      );
+    }
+    inverted.push(inverse);
+  });
+  return inverted.reverse().flat();
+};
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  const cases: Array<[unknown, unknown]> = [
+    [
+      { a: 1, b: { c: [1, 2, 3] } },
+      { a: 2, b: { c: [1, 3] }, d: 'x' },
+    ],
+    [
+      [1, 2, 3],
+      [3, 2, 1, 0],
+    ],
+    [
+      { list: [{ id: 1 }, { id: 2 }] },
+      { list: [{ id: 2 }, { id: 1, x: true }] },
+    ],
+    [{ 'a/b': 1, 'c~d': 2 }, { 'a/b': 3 }],
+    [{ a: new Date(0) }, { a: new Date(1) }],
+    [1, { a: 1 }],
+    [{ a: [1, 2] }, { a: { 0: 1 } }],
+    [{}, { constructor: 1, prototype: { a: 1 } }],
+  ];
+
+  describe('Tests', () => {
+    it('diff', () => {
+      expect(diff({ a: 1, b: [1] }, { a: 2, b: [1, 2] })).toEqual([
+        { op: 'replace', path: '/a', value: 2 },
+        { op: 'add', path: '/b/1', value: 2 },
+      ]);
+      expect(diff({ a: 1, b: 2 }, { a: 1 })).toEqual([
+        { op: 'remove', path: '/b' },
+      ]);
+      expect(diff({ 'a/b': { '~': 1 } }, { 'a/b': { '~': 2 } })).toEqual([
+        { op: 'replace', path: '/a~1b/~0', value: 2 },
+      ]);
+      expect(diff({ a: [1] }, { a: [1] })).toEqual([]);
+      expect(diff(1, 2)).toEqual([{ op: 'replace', path: '', value: 2 }]);
+    });
+    it('diff detects moves', () => {
+      const a = [{ id: 1 }, { id: 2 }, { id: 3 }];
+      const b = [{ id: 3 }, { id: 1 }, { id: 2 }];
+      expect(diff(a, b, { detectMoves: true })).toEqual([
+        { op: 'move', from: '/2', path: '/0' },
+      ]);
+      expect(diff(a, b)).toHaveLength(3);
+    });
+    it('round trip', () => {
+      for (const [a, b] of cases) {
+        for (const detectMoves of [false, true]) {
+          const patch = diff(a, b, { detectMoves });
+          expect(applyPatch(a, patch)).toEqual(b);
+          expect(applyPatch(b, invertPatch(a, patch))).toEqual(a);
+        }
+      }
+    });
+    it('applyPatch is immutable and shares unchanged values', () => {
+      const document = { a: { b: 1 }, c: { d: [1] } };
+      const result = applyPatch(document, [
+        { op: 'add', path: '/c/d/-', value: 2 },
+        { op: 'copy', from: '/a', path: '/e' },
+        { op: 'move', from: '/a/b', path: '/f' },
+        { op: 'test', path: '/f', value: 1 },
+      ]);
+      expect(result).toEqual({ a: {}, c: { d: [1, 2] }, e: { b: 1 }, f: 1 });
+      expect(document).toEqual({ a: { b: 1 }, c: { d: [1] } });
+      const unchanged = { x: { y: 1 }, z: 1 };
+      const next = applyPatch(unchanged, [
+        { op: 'replace', path: '/z', value: 2 },
+      ]);
+      expect(next.x).toBe(unchanged.x);
+    });
+    it('applyPatch errors', () => {
+      const document = { a: [1], b: 1 };
+      const failures: PatchOperation[][] = [
+        [{ op: 'test', path: '/b', value: 2 }],
+        [{ op: 'remove', path: '/missing' }],
+        [{ op: 'replace', path: '/a/1', value: 1 }],
+        [{ op: 'add', path: '/a/5', value: 1 }],
+        [{ op: 'add', path: '/x/y', value: 1 }],
+        [{ op: 'move', from: '/a', path: '/a/0' }],
+        [{ op: 'add', path: 'a', value: 1 }],
+        [{ op: 'add', path: '/__proto__', value: { polluted: true } }],
+      ];
+      for (const patch of failures) {
+        expect(() => applyPatch(document, patch)).toThrow(PatchError);
+      }
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+      expect(() =>
+        applyPatch(document, [
+          { op: 'replace', path: '/b', value: 2 },
+          { op: 'test', path: '/b', value: 1 },
+        ])
+      ).toThrow(expect.objectContaining({ name: 'PatchError', index: 1 }));
+    });
+    it('invertPatch', () => {
+      const document = { a: 1, list: [1, 2], nested: { x: 1 } };
+      const patch: PatchOperation[] = [
+        { op: 'add', path: '/list/-', value: 3 },
+        { op: 'add', path: '/a', value: 2 },
+        { op: 'move', from: '/nested/x', path: '/a' },
+        { op: 'copy', from: '/list', path: '/copy' },
+        { op: 'remove', path: '/list/0' },
+      ];
+      const next = applyPatch(document, patch);
+      expect(next).toEqual({ a: 1, list: [2, 3], nested: {}, copy: [1, 2, 3] });
+      expect(applyPatch(next, invertPatch(document, patch))).toEqual(document);
+    });
+  });
+}
@@ -0,0 +1,370 @@
+import { AbortError } from './utilities.ts';
+
+/**
+ * Options of `createQueue`
+ */
+export interface QueueOptions {
+  /**
+   * Maximum number of tasks running at the same time, default `1`
+   */
+  concurrency?: number;
+  /**
+   * Start running tasks once added, default `true`
+   */
+  autoStart?: boolean;
+}
+
+/**
+ * Options of `Queue.add`
+ */
+export interface QueueTaskOptions {
+  /**
+   * Tasks with higher priority run first, default `0`
+   */
+  priority?: number;
+  /**
+   * Abort the task, waiting tasks are removed from the queue
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A concurrency-limited task queue
+ */
+export interface Queue {
+  /**
+   * Add a task, the returned promise settles with the task
+   */
+  add<T>(
+    task: (signal?: AbortSignal) => T | PromiseLike<T>,
+    options?: QueueTaskOptions
+  ): Promise<Awaited<T>>;
+  start(): void;
+  pause(): void;
+  /**
+   * Remove all waiting tasks, their promises reject with `AbortError`
+   */
+  clear(): void;
+  /**
+   * Resolve once no task is waiting or running
+   */
+  onIdle(): Promise<void>;
+  /**
+   * Number of waiting tasks
+   */
+  readonly size: number;
+  /**
+   * Number of running tasks
+   */
+  readonly pending: number;
+  readonly isPaused: boolean;
+}
+
+interface QueueEntry {
+  run: () => void;
+  reject: (reason: unknown) => void;
+  /**
+   * Remove the abort listener from the signal
+   */
+  cleanup: () => void;
+  priority: number;
+}
+
+/**
+ * 创建一个限制并发数的任务队列
+ * @param options
+ * @example
+ * const queue = createQueue({ concurrency: 2 });
+ * queue.add(() => upload(file), { priority: 1 });
+ * await queue.onIdle();
+ */
+export const createQueue = (options: QueueOptions = {}): Queue => {
+  const { concurrency = 1, autoStart = true } = options;
+  if (!(concurrency >= 1))
+    throw new RangeError(`Expected concurrency >= 1, received ${concurrency}`);
+  const waiting: QueueEntry[] = [];
+  let running = 0;
+  let paused = !autoStart;
+  let idleResolvers: Array<() => void> = [];
+
+  const next = () => {
+    while (!paused && running < concurrency && waiting.length > 0) {
+      waiting.shift()!.run();
+    }
+    if (running === 0 && waiting.length === 0) {
+      idleResolvers.forEach((resolve) => resolve());
+      idleResolvers = [];
+    }
+  };
+  const remove = (entry: QueueEntry) => {
+    const index = waiting.indexOf(entry);
+    if (index === -1) return false;
+    waiting.splice(index, 1);
+    return true;
+  };
+
+  return {
+    add: (task, options = {}) => {
+      const { priority = 0, signal } = options;
+      return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(new AbortError(signal.reason));
+          return;
+        }
+        const onAbort = () => {
+          reject(new AbortError(signal?.reason));
+          // 等待中的任务直接移除，运行中的任务由其自行响应 signal
+          if (remove(entry)) next();
+        };
+        const entry: QueueEntry = {
+          priority,
+          reject,
+          cleanup: () => signal?.removeEventListener('abort', onAbort),
+          run: () => {
+            running += 1;
+            Promise.resolve()
+              .then(() => task(signal))
+              .then(resolve as (value: unknown) => void, reject)
+              .finally(() => {
+                entry.cleanup();
+                running -= 1;
+                next();
+              });
+          },
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        // 同优先级保持先进先出
+        const index = waiting.findIndex((it) => it.priority < priority);
+        if (index === -1) waiting.push(entry);
+        else waiting.splice(index, 0, entry);
+        next();
+      });
+    },
+    start: () => {
+      paused = false;
+      next();
+    },
+    pause: () => {
+      paused = true;
+    },
+    clear: () => {
+      waiting.splice(0).forEach((entry) => {
+        entry.cleanup();
+        entry.reject(new AbortError());
+      });
+      next();
+    },
+    onIdle: () => {
+      if (running === 0 && waiting.length === 0) return Promise.resolve();
+      return new Promise<void>((resolve) => idleResolvers.push(resolve));
+    },
+    get size() {
+      return waiting.length;
+    },
+    get pending() {
+      return running;
+    },
+    get isPaused() {
+      return paused;
+    },
+  };
+};
+
+/**
+ * Options of `mapConcurrent`
+ */
+export interface MapConcurrentOptions {
+  /**
+   * Reject on the first error and stop starting new items, default `true`
+   * @description 为 `false` 时等待所有项完成，并返回与 `Promise.allSettled` 相同结构的结果
+   */
+  failFast?: boolean;
+}
+
+/**
+ * 以限定的并发数映射集合，结果顺序与输入一致
+ * @param items
+ * @param fn
+ * @param limit 最大并发数，默认不限制
+ * @param options
+ * @example await mapConcurrent(urls, (url) => fetch(url), 4)
+ */
+export function mapConcurrent<T, R>(
+  items: Iterable<T>,
+  fn: (item: T, index: number) => R | PromiseLike<R>,
+  limit: number | undefined,
+  options: { failFast: false }
+): Promise<PromiseSettledResult<Awaited<R>>[]>;
+export function mapConcurrent<T, R>(
+  items: Iterable<T>,
+  fn: (item: T, index: number) => R | PromiseLike<R>,
+  limit?: number,
+  options?: MapConcurrentOptions
+): Promise<Awaited<R>[]>;
+export async function mapConcurrent<T, R>(
+  items: Iterable<T>,
+  fn: (item: T, index: number) => R | PromiseLike<R>,
+  limit = Infinity,
+  options: MapConcurrentOptions = {}
+): Promise<unknown[]> {
+  const { failFast = true } = options;
+  if (!(limit >= 1))
+    throw new RangeError(`Expected limit >= 1, received ${limit}`);
+  const list = Array.from(items);
+  const results: unknown[] = new Array(list.length);
+  let cursor = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && cursor < list.length) {
+      const index = cursor++;
+      try {
+        const value = await fn(list[index], index);
+        results[index] = failFast ? value : { status: 'fulfilled', value };
+      } catch (reason) {
+        if (failFast) {
+          failed = true;
+          throw reason;
+        }
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, list.length) }, worker)
+  );
+  return results;
+}
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect, vi } = import.meta.vitest;
+
+  const deferred = <T = void>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (reason: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  describe('Tests', () => {
+    it('createQueue limits concurrency', async () => {
+      const queue = createQueue({ concurrency: 2 });
+      const tasks = [deferred(), deferred(), deferred()];
+      const started: number[] = [];
+      const results = tasks.map((task, index) =>
+        queue.add(async () => {
+          started.push(index);
+          await task.promise;
+          return index;
+        })
+      );
+      await tick();
+      expect(started).toEqual([0, 1]);
+      expect(queue.pending).toBe(2);
+      expect(queue.size).toBe(1);
+      tasks[1].resolve();
+      expect(await results[1]).toBe(1);
+      await tick();
+      expect(started).toEqual([0, 1, 2]);
+      tasks[0].resolve();
+      tasks[2].resolve();
+      await queue.onIdle();
+      expect(await Promise.all(results)).toEqual([0, 1, 2]);
+      expect(queue.pending).toBe(0);
+    });
+    it('createQueue priorities, pause and resume', async () => {
+      const queue = createQueue({ autoStart: false });
+      const order: string[] = [];
+      queue.add(() => order.push('low'));
+      queue.add(() => order.push('high'), { priority: 2 });
+      queue.add(() => order.push('medium'), { priority: 1 });
+      queue.add(() => order.push('high2'), { priority: 2 });
+      await tick();
+      expect(order).toEqual([]);
+      expect(queue.isPaused).toBe(true);
+      queue.start();
+      await queue.onIdle();
+      expect(order).toEqual(['high', 'high2', 'medium', 'low']);
+      queue.pause();
+      queue.add(() => order.push('later'));
+      await tick();
+      expect(order).toHaveLength(4);
+      queue.start();
+      await queue.onIdle();
+      expect(order).toHaveLength(5);
+    });
+    it('createQueue task errors and cancellation', async () => {
+      const queue = createQueue();
+      await expect(
+        queue.add(() => {
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+      const blocker = deferred();
+      queue.add(() => blocker.promise);
+      const controller = new AbortController();
+      const task = vi.fn();
+      const aborted = queue.add(task, { signal: controller.signal });
+      const cleared = queue.add(task);
+      expect(queue.size).toBe(2);
+      controller.abort();
+      await expect(aborted).rejects.toBeInstanceOf(AbortError);
+      expect(queue.size).toBe(1);
+      queue.clear();
+      await expect(cleared).rejects.toBeInstanceOf(AbortError);
+      const shared = new AbortController();
+      const removeListener = vi.spyOn(shared.signal, 'removeEventListener');
+      const waiting = queue.add(task, { signal: shared.signal });
+      queue.clear();
+      await expect(waiting).rejects.toBeInstanceOf(AbortError);
+      expect(removeListener).toHaveBeenCalledWith(
+        'abort',
+        expect.any(Function)
+      );
+      blocker.resolve();
+      await queue.onIdle();
+      expect(task).not.toHaveBeenCalled();
+      await expect(
+        queue.add(task, { signal: AbortSignal.abort() })
+      ).rejects.toBeInstanceOf(AbortError);
+      expect(() => createQueue({ concurrency: 0 })).toThrow(RangeError);
+    });
+    it('mapConcurrent preserves order', async () => {
+      let running = 0;
+      let peak = 0;
+      const results = await mapConcurrent(
+        new Set([30, 10, 20, 0]),
+        async (ms, index) => {
+          running += 1;
+          peak = Math.max(peak, running);
+          await new Promise((resolve) => setTimeout(resolve, ms));
+          running -= 1;
+          return `${index}:${ms}`;
+        },
+        2
+      );
+      expect(results).toEqual(['0:30', '1:10', '2:20', '3:0']);
+      expect(peak).toBe(2);
+    });
+    it('mapConcurrent errors', async () => {
+      const fn = vi.fn(async (value: number) => {
+        if (value === 2) throw new Error(`bad ${value}`);
+        return value;
+      });
+      await expect(mapConcurrent([1, 2, 3, 4], fn, 1)).rejects.toThrow('bad 2');
+      expect(fn).toHaveBeenCalledTimes(2);
+      const settled = await mapConcurrent([1, 2, 3], fn, 2, {
+        failFast: false,
+      });
+      expect(settled).toEqual([
+        { status: 'fulfilled', value: 1 },
+        { status: 'rejected', reason: new Error('bad 2') },
+        { status: 'fulfilled', value: 3 },
+      ]);
+    });
+  });
+}
@@ -0,0 +1,425 @@
+import {
+  isArray,
+  isBoolean,
+  isDate,
+  isDef,
+  isNumber,
+  isPlainObject,
+  isString,
+} from './utilities.ts';
+
+/**
+ * A problem found during validation
+ */
+export interface SchemaIssue {
+  /**
+   * Path of the failing value
+   */
+  path: PropertyKey[];
+  message: string;
+}
+
+/**
+ * Result of `validate`
+ */
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: SchemaIssue[] };
+
+/**
+ * A composable validator
+ */
+export interface Schema<T> {
+  /**
+   * Collect issues of the value into `issues`
+   */
+  readonly check: (
+    value: unknown,
+    path: PropertyKey[],
+    issues: SchemaIssue[]
+  ) => void;
+  /**
+   * Mark the field as optional in `object`
+   */
+  readonly optional?: boolean;
+  /**
+   * Type carrier, only for type inference
+   */
+  readonly _type?: T;
+}
+
+/**
+ * Infer the type of a schema
+ * @example type User = Infer<typeof user>;
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type OptionalSchema<T> = Schema<T | undefined> & { readonly optional: true };
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+type ObjectShape = Record<string, Schema<unknown>>;
+type InferObject<S extends ObjectShape> = Simplify<
+  {
+    [K in keyof S as S[K] extends OptionalSchema<unknown> ? K : never]?: Infer<
+      S[K]
+    >;
+  } & {
+    [K in keyof S as S[K] extends OptionalSchema<unknown> ? never : K]: Infer<
+      S[K]
+    >;
+  }
+>;
+
+const describeValue = (value: unknown) => {
+  if (value === null) return 'null';
+  if (isArray(value)) return 'array';
+  if (isDate(value)) return 'date';
+  if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+  return typeof value;
+};
+
+/**
+ * 基于类型守卫创建 schema
+ * @param guard 类型守卫，例如 `isString`
+ * @param expected 期望类型的描述，用于错误信息
+ * @example const url = guard(isURL, 'url');
+ */
+export const guard = <T>(
+  guard: (value: unknown) => value is T,
+  expected: string
+): Schema<T> => ({
+  check: (value, path, issues) => {
+    if (!guard(value))
+      issues.push({
+        path,
+        message: `Expected ${expected}, received ${describeValue(value)}`,
+      });
+  },
+});
+
+export const string = () => guard(isString, 'string');
+export const number = () => guard(isNumber, 'number');
+export const boolean = () => guard(isBoolean, 'boolean');
+export const date = () => guard(isDate, 'date');
+export const unknown = (): Schema<unknown> => ({ check: () => void 0 });
+
+/**
+ * 字面量
+ * @param values
+ * @example literal('asc', 'desc')
+ */
+export const literal = <
+  T extends Array<string | number | boolean | null | undefined>
+>(
+  ...values: T
+): Schema<T[number]> => ({
+  check: (value, path, issues) => {
+    if (!values.includes(value as T[number]))
+      issues.push({
+        path,
+        message: `Expected ${values
+          .map((it) => JSON.stringify(it) ?? 'undefined')
+          .join(' | ')}, received ${
+          JSON.stringify(value) ?? describeValue(value)
+        }`,
+      });
+  },
+});
+
+/**
+ * 可选值，在 `object` 中对应的键也是可选的
+ * @param schema
+ */
+export const optional = <T>(schema: Schema<T>): OptionalSchema<T> => ({
+  optional: true,
+  check: (value, path, issues) => {
+    if (value !== void 0) schema.check(value, path, issues);
+  },
+});
+
+/**
+ * 可为 `null` 的值
+ * @param schema
+ */
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  check: (value, path, issues) => {
+    if (value !== null) schema.check(value, path, issues);
+  },
+});
+
+/**
+ * 数组
+ * @param item
+ * @example array(string())
+ */
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  check: (value, path, issues) => {
+    if (!isArray(value)) {
+      issues.push({
+        path,
+        message: `Expected array, received ${describeValue(value)}`,
+      });
+      return;
+    }
+    value.forEach((it, index) => item.check(it, [...path, index], issues));
+  },
+});
+
+/**
+ * 对象
+ * @param shape
+ * @param options `strict` 为 `true` 时未声明的键也会被视为错误
+ * @example object({ name: string(), age: optional(number()) })
+ */
+export const object = <S extends ObjectShape>(
+  shape: S,
+  options: { strict?: boolean } = {}
+): Schema<InferObject<S>> => ({
+  check: (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({
+        path,
+        message: `Expected object, received ${describeValue(value)}`,
+      });
+      return;
+    }
+    for (const [key, schema] of Object.entries(shape)) {
+      // 只检查自有属性，忽略 `toString` 等继承的属性
+      const present = Object.prototype.hasOwnProperty.call(value, key);
+      if (!schema.optional && !present) {
+        issues.push({ path: [...path, key], message: 'Required' });
+        continue;
+      }
+      schema.check(present ? value[key] : void 0, [...path, key], issues);
+    }
+    if (options.strict) {
+      for (const key of Object.keys(value)) {
+        if (!Object.prototype.hasOwnProperty.call(shape, key))
+          issues.push({ path: [...path, key], message: 'Unknown key' });
+      }
+    }
+  },
+});
+
+/**
+ * 键为字符串的记录
+ * @param item
+ * @example record(number())
+ */
+export const record = <T>(item: Schema<T>): Schema<Record<string, T>> => ({
+  check: (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({
+        path,
+        message: `Expected object, received ${describeValue(value)}`,
+      });
+      return;
+    }
+    for (const [key, it] of Object.entries(value)) {
+      item.check(it, [...path, key], issues);
+    }
+  },
+});
+
+/**
+ * 联合类型，满足任一 schema 即可
+ * @param schemas
+ * @example union(string(), number())
+ */
+export const union = <T extends Schema<unknown>[]>(
+  ...schemas: T
+): Schema<Infer<T[number]>> => ({
+  check: (value, path, issues) => {
+    const results = schemas.map((schema) => {
+      const current: SchemaIssue[] = [];
+      schema.check(value, path, current);
+      return current;
+    });
+    if (results.some((it) => it.length === 0)) return;
+    issues.push({
+      path,
+      message: `Expected one of: ${results
+        .map((it) => it.map((issue) => issue.message).join(', '))
+        .join(' | ')}`,
+    });
+  },
+});
+
+// 可选值为 `undefined` 时不会调用 `predicate`
+type RefineValue<S> = S extends { readonly optional: true }
+  ? Exclude<Infer<S>, undefined>
+  : Infer<S>;
+
+/**
+ * 附加自定义校验，仅在基础校验通过后执行
+ * @param schema
+ * @param predicate
+ * @param message
+ * @example refine(number(), (v) => v >= 0, 'Expected a non-negative number')
+ */
+export const refine = <S extends Schema<unknown>>(
+  schema: S,
+  predicate: (value: RefineValue<S>) => boolean,
+  message: string
+): S =>
+  ({
+    optional: schema.optional,
+    check: (value, path, issues) => {
+      const current: SchemaIssue[] = [];
+      schema.check(value, path, current);
+      if (current.length > 0) {
+        issues.push(...current);
+        return;
+      }
+      // 可选值为 `undefined` 时跳过
+      if (schema.optional && !isDef(value)) return;
+      if (!predicate(value as RefineValue<S>)) issues.push({ path, message });
+    },
+  } as S);
+
+/**
+ * 校验值并返回所有问题，不会抛出异常
+ * @param schema
+ * @param value
+ * @example
+ * const result = validate(user, payload);
+ * if (!result.success) console.log(result.issues);
+ */
+export const validate = <T>(
+  schema: Schema<T>,
+  value: unknown
+): SchemaResult<T> => {
+  const issues: SchemaIssue[] = [];
+  schema.check(value, [], issues);
+  return issues.length === 0
+    ? { success: true, data: value as T }
+    : { success: false, issues };
+};
+
+/**
+ * Check if value matches the schema
+ * @param schema
+ * @param value
+ */
+export const is = <T>(schema: Schema<T>, value: unknown): value is T =>
+  validate(schema, value).success;
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect, expectTypeOf } = import.meta.vitest;
+
+  describe('Tests', () => {
+    const user = object({
+      name: string(),
+      age: optional(refine(number(), (v) => v >= 0, 'Expected age >= 0')),
+      role: literal('admin', 'member'),
+      tags: array(string()),
+      address: nullable(object({ city: string() })),
+      meta: record(union(string(), number())),
+    });
+    it('infers the type', () => {
+      expectTypeOf<Infer<typeof user>>().toEqualTypeOf<{
+        age?: number | undefined;
+        name: string;
+        role: 'admin' | 'member';
+        tags: string[];
+        address: { city: string } | null;
+        meta: Record<string, string | number>;
+      }>();
+    });
+    it('refine keeps the type of the schema', () => {
+      const schema = object({
+        a: refine(optional(number()), (v) => v >= 0, 'Expected a >= 0'),
+      });
+      expectTypeOf<Infer<typeof schema>>().toEqualTypeOf<{
+        a?: number | undefined;
+      }>();
+      const empty: Infer<typeof schema> = {};
+      expect(is(schema, empty)).toBe(true);
+      expect(validate(schema, { a: -1 })).toEqual({
+        success: false,
+        issues: [{ path: ['a'], message: 'Expected a >= 0' }],
+      });
+    });
+    it('validates a valid value', () => {
+      const value = {
+        name: 'a',
+        role: 'admin',
+        tags: ['x'],
+        address: { city: 'y' },
+        meta: { a: 1, b: 'c' },
+      };
+      expect(validate(user, value)).toEqual({ success: true, data: value });
+      expect(is(user, { ...value, age: 1, address: null })).toBe(true);
+    });
+    it('collects all issues with paths', () => {
+      const result = validate(user, {
+        age: -1,
+        role: 'guest',
+        tags: ['x', 1],
+        address: { city: 2 },
+        meta: { a: true },
+      });
+      expect(result).toEqual({
+        success: false,
+        issues: [
+          { path: ['name'], message: 'Required' },
+          { path: ['age'], message: 'Expected age >= 0' },
+          {
+            path: ['role'],
+            message: 'Expected "admin" | "member", received "guest"',
+          },
+          { path: ['tags', 1], message: 'Expected string, received number' },
+          {
+            path: ['address', 'city'],
+            message: 'Expected string, received number',
+          },
+          {
+            path: ['meta', 'a'],
+            message:
+              'Expected one of: Expected string, received boolean | Expected number, received boolean',
+          },
+        ],
+      });
+    });
+    it('object strict mode', () => {
+      const point = object({ x: number() }, { strict: true });
+      expect(validate(point, { x: 1, y: 2 })).toEqual({
+        success: false,
+        issues: [{ path: ['y'], message: 'Unknown key' }],
+      });
+      expect(validate(point, [])).toEqual({
+        success: false,
+        issues: [{ path: [], message: 'Expected object, received array' }],
+      });
+      expect(validate(point, { x: 1, constructor: 2, toString: 3 })).toEqual({
+        success: false,
+        issues: [
+          { path: ['constructor'], message: 'Unknown key' },
+          { path: ['toString'], message: 'Unknown key' },
+        ],
+      });
+    });
+    it('object ignores inherited properties', () => {
+      const named = object({ toString: string(), valueOf: optional(number()) });
+      expect(validate(named, {})).toEqual({
+        success: false,
+        issues: [{ path: ['toString'], message: 'Required' }],
+      });
+      expect(is(named, { toString: 'a' })).toBe(true);
+    });
+    it('guard', () => {
+      const even = guard(
+        (v: unknown): v is number => isNumber(v) && v % 2 === 0,
+        'even number'
+      );
+      expect(is(even, 2)).toBe(true);
+      expect(validate(even, NaN)).toEqual({
+        success: false,
+        issues: [{ path: [], message: 'Expected even number, received NaN' }],
+      });
+      expect(is(unknown(), Symbol())).toBe(true);
+      expect(is(date(), new Date())).toBe(true);
+      expect(is(boolean(), 0)).toBe(false);
+    });
+  });
+}
@@ -0,0 +1,250 @@
+import { isFunction } from './utilities.ts';
+
+export type StoreListener<T> = (state: T, prevState: T) => void;
+
+export type StoreSetStateAction<T> = T | ((prevState: T) => T);
+
+/**
+ * A minimal external store
+ */
+export interface Store<T> {
+  getState: () => T;
+  /**
+   * The state passed to `createStore`, used as the server snapshot
+   */
+  getInitialState: () => T;
+  /**
+   * Replace the state, listeners are not called when the state is unchanged (`Object.is`)
+   */
+  setState: (action: StoreSetStateAction<T>) => void;
+  subscribe: (listener: StoreListener<T>) => () => void;
+}
+
+/**
+ * Enhance a store, for example wrap `setState` or subscribe to changes
+ */
+export type StoreMiddleware<T> = (store: Store<T>) => Store<T>;
+
+/**
+ * Options of `createStore`
+ */
+export interface StoreOptions<T> {
+  /**
+   * Applied from left to right, the last one is the outermost
+   */
+  middleware?: StoreMiddleware<T>[];
+}
+
+/**
+ * 创建一个外部状态容器，可配合 `useStore` 在组件间共享
+ * @param initialState
+ * @param options
+ * @example
+ * const counter = createStore({ count: 0 }, { middleware: [loggerMiddleware()] });
+ * counter.setState((prev) => ({ count: prev.count + 1 }));
+ */
+export const createStore = <T>(
+  initialState: T,
+  options: StoreOptions<T> = {}
+): Store<T> => {
+  const { middleware = [] } = options;
+  const listeners = new Set<StoreListener<T>>();
+  let state = initialState;
+  const store: Store<T> = {
+    getState: () => state,
+    getInitialState: () => initialState,
+    setState: (action) => {
+      const prevState = state;
+      const nextState = isFunction(action) ? action(prevState) : action;
+      if (Object.is(prevState, nextState)) return;
+      state = nextState;
+      listeners.forEach((listener) => listener(nextState, prevState));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+  return middleware.reduce((current, apply) => apply(current), store);
+};
+
+/**
+ * Options of `loggerMiddleware`
+ */
+export interface LoggerMiddlewareOptions {
+  /**
+   * Prefix of the messages
+   */
+  name?: string;
+  /**
+   * Default `console.log`
+   */
+  log?: (message: string, prevState: unknown, nextState: unknown) => void;
+}
+
+/**
+ * 打印每次 `setState` 前后的状态
+ * @param options
+ * @example createStore(initial, { middleware: [loggerMiddleware({ name: 'cart' })] })
+ */
+export const loggerMiddleware =
+  <T>(options: LoggerMiddlewareOptions = {}): StoreMiddleware<T> =>
+  (store) => {
+    const { name = 'store', log = console.log } = options;
+    return {
+      ...store,
+      setState: (action) => {
+        const prevState = store.getState();
+        store.setState(action);
+        log(`[${name}] setState`, prevState, store.getState());
+      },
+    };
+  };
+
+/**
+ * Options of `persistMiddleware`
+ */
+export interface PersistMiddlewareOptions<T> {
+  key: string;
+  /**
+   * Storage or a getter of it, default `localStorage`
+   */
+  storage?: Storage | (() => Storage);
+  /**
+   * Default `JSON.stringify`
+   */
+  serialize?: (state: T) => string;
+  /**
+   * Default `JSON.parse`
+   */
+  deserialize?: (raw: string) => unknown;
+  /**
+   * Stored states failing the validation are ignored
+   */
+  validate?: (value: unknown) => value is T;
+  /**
+   * Called when reading or writing the storage fails, default `console.warn`
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * 创建时从 `Storage` 恢复状态，并在状态变化时写入
+ * @param options
+ * @description 无法访问 `Storage` 时（例如服务端渲染）不做任何处理
+ * @example createStore(initial, { middleware: [persistMiddleware({ key: 'settings' })] })
+ */
+export const persistMiddleware =
+  <T>(options: PersistMiddlewareOptions<T>): StoreMiddleware<T> =>
+  (store) => {
+    const {
+      key,
+      serialize = JSON.stringify,
+      deserialize = JSON.parse,
+      validate,
+      onError = console.warn,
+    } = options;
+    let storage: Storage;
+    try {
+      if (options.storage)
+        storage = isFunction(options.storage)
+          ? options.storage()
+          : options.storage;
+      else if (typeof window !== 'undefined') storage = window.localStorage;
+      else return store;
+    } catch (error) {
+      onError(error);
+      return store;
+    }
+    try {
+      const raw = storage.getItem(key);
+      if (raw !== null) {
+        const value = deserialize(raw);
+        if (!validate || validate(value)) store.setState(() => value as T);
+      }
+    } catch (error) {
+      // 损坏的数据视为未存储
+      onError(error);
+    }
+    store.subscribe((state) => {
+      try {
+        storage.setItem(key, serialize(state));
+      } catch (error) {
+        onError(error);
+      }
+    });
+    return store;
+  };
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect, vi, beforeEach } = import.meta.vitest;
+
+  describe('Tests', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+    it('createStore', () => {
+      const store = createStore({ count: 0 });
+      const listener = vi.fn();
+      const unsubscribe = store.subscribe(listener);
+      store.setState((prev) => ({ count: prev.count + 1 }));
+      expect(store.getState()).toEqual({ count: 1 });
+      expect(listener).toHaveBeenCalledWith({ count: 1 }, { count: 0 });
+      store.setState(store.getState());
+      expect(listener).toHaveBeenCalledTimes(1);
+      unsubscribe();
+      store.setState({ count: 2 });
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(store.getInitialState()).toEqual({ count: 0 });
+    });
+    it('loggerMiddleware', () => {
+      const log = vi.fn();
+      const store = createStore(1, {
+        middleware: [loggerMiddleware({ name: 'counter', log })],
+      });
+      store.setState(2);
+      expect(log).toHaveBeenCalledWith('[counter] setState', 1, 2);
+    });
+    it('persistMiddleware', () => {
+      localStorage.setItem('settings', '{"theme":"dark"}');
+      const isSettings = (value: unknown): value is { theme: string } =>
+        typeof value === 'object' && value !== null && 'theme' in value;
+      const store = createStore(
+        { theme: 'light' },
+        {
+          middleware: [
+            persistMiddleware({ key: 'settings', validate: isSettings }),
+          ],
+        }
+      );
+      expect(store.getState()).toEqual({ theme: 'dark' });
+      expect(store.getInitialState()).toEqual({ theme: 'light' });
+      store.setState({ theme: 'blue' });
+      expect(localStorage.getItem('settings')).toBe('{"theme":"blue"}');
+      localStorage.setItem('settings', '{');
+      const onError = vi.fn();
+      const corrupted = createStore(
+        { theme: 'light' },
+        { middleware: [persistMiddleware({ key: 'settings', onError })] }
+      );
+      expect(corrupted.getState()).toEqual({ theme: 'light' });
+      expect(onError).toHaveBeenCalledWith(expect.any(SyntaxError));
+    });
+    it('middleware order', () => {
+      const calls: string[] = [];
+      const trace =
+        (name: string): StoreMiddleware<number> =>
+        (store) => ({
+          ...store,
+          setState: (action) => {
+            calls.push(name);
+            store.setState(action);
+          },
+        });
+      const store = createStore(0, { middleware: [trace('a'), trace('b')] });
+      store.setState(1);
+      expect(calls).toEqual(['b', 'a']);
+    });
+  });
+}
@@ -0,0 +1,247 @@
+import {
+  DependencyList,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import { useLatestFunc } from './use-latest.ts';
+
+export type AsyncStatus = 'idle' | 'pending' | 'success' | 'error';
+
+/**
+ * State of `useAsync` and `useAsyncCallback`
+ */
+export interface AsyncState<T> {
+  status: AsyncStatus;
+  /**
+   * Data of the last successful call, kept while the next call is pending
+   */
+  data: T | undefined;
+  error: unknown;
+}
+
+export interface AsyncControls<T, A extends unknown[]> extends AsyncState<T> {
+  /**
+   * Call the function, the previous call is aborted
+   * @description 不会拒绝，失败、取消或被后续调用取代时返回 `undefined`，错误可从 `error` 获取
+   */
+  run: (...args: A) => Promise<T | undefined>;
+  /**
+   * Abort the pending call, its result is ignored
+   */
+  cancel: () => void;
+}
+
+/**
+ * Options of `useAsync` and `useAsyncCallback`
+ */
+export interface UseAsyncOptions<T> {
+  initialData?: T;
+}
+
+const useAsyncControls = <T, A extends unknown[]>(
+  func: (signal: AbortSignal, ...args: A) => Promise<T>,
+  initialStatus: AsyncStatus,
+  options: UseAsyncOptions<T>
+): AsyncControls<T, A> => {
+  const [state, setState] = useState<AsyncState<T>>(() => ({
+    status: initialStatus,
+    data: options.initialData,
+    error: void 0,
+  }));
+  const latestFunc = useLatestFunc(func);
+  const controllerRef = useRef<AbortController>();
+
+  const run = useCallback(
+    async (...args: A) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setState((prev) =>
+        prev.status === 'pending'
+          ? prev
+          : { status: 'pending', data: prev.data, error: void 0 }
+      );
+      try {
+        const data = await latestFunc(controller.signal, ...args);
+        // 已被取消、卸载或被后续调用取代时忽略结果
+        if (controller.signal.aborted) return void 0;
+        setState({ status: 'success', data, error: void 0 });
+        return data;
+      } catch (error) {
+        if (controller.signal.aborted) return void 0;
+        setState((prev) => ({ status: 'error', data: prev.data, error }));
+        return void 0;
+      } finally {
+        if (controllerRef.current === controller)
+          controllerRef.current = void 0;
+      }
+    },
+    [latestFunc]
+  );
+  const cancel = useCallback(() => {
+    if (!controllerRef.current) return;
+    controllerRef.current.abort();
+    controllerRef.current = void 0;
+    setState((prev) => ({ ...prev, status: 'idle' }));
+  }, []);
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { ...state, run, cancel };
+};
+
+/**
+ * 返回一个异步函数的状态及控制方法，调用 `run` 时执行
+ * @param func 第一个参数为 `AbortSignal`，之后为 `run` 的参数
+ * @param options
+ * @example
+ * const { status, data, run } = useAsyncCallback((signal, id: string) => fetchUser(id, { signal }));
+ * <button onClick={() => run(id)} />
+ */
+export const useAsyncCallback = <T, A extends unknown[] = []>(
+  func: (signal: AbortSignal, ...args: A) => Promise<T>,
+  options: UseAsyncOptions<T> = {}
+): AsyncControls<T, A> => useAsyncControls(func, 'idle', options);
+
+/**
+ * 挂载及依赖变化时执行异步函数，并中止上一次的调用
+ * @param func
+ * @param deps
+ * @param options
+ * @example const { status, data, error } = useAsync((signal) => fetchUser(id, { signal }), [id]);
+ */
+export const useAsync = <T>(
+  func: (signal: AbortSignal) => Promise<T>,
+  deps: DependencyList,
+  options: UseAsyncOptions<T> = {}
+): AsyncControls<T, []> => {
+  const controls = useAsyncControls(func, 'pending', options);
+  const { run } = controls;
+  useEffect(() => {
+    run();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps);
+  return controls;
+};
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect, vi } = import.meta.vitest;
+
+  const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (reason: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  describe('Tests', async () => {
+    const { StrictMode } = await import('react');
+    const { renderHook, act } = await import('@testing-library/react');
+    it('useAsyncCallback', async () => {
+      const task = deferred<string>();
+      const func = vi.fn((_: AbortSignal, id: number) =>
+        task.promise.then((value) => `${value}${id}`)
+      );
+      const { result } = renderHook(() => useAsyncCallback(func));
+      expect(result.current.status).toBe('idle');
+      let pending!: Promise<string | undefined>;
+      act(() => {
+        pending = result.current.run(1);
+      });
+      expect(result.current.status).toBe('pending');
+      await act(async () => {
+        task.resolve('user');
+        expect(await pending).toBe('user1');
+      });
+      expect(result.current).toMatchObject({
+        status: 'success',
+        data: 'user1',
+      });
+      expect(func.mock.calls[0][0]).toBeInstanceOf(AbortSignal);
+    });
+    it('useAsyncCallback errors keep the previous data', async () => {
+      const { result } = renderHook(() =>
+        useAsyncCallback(async (_, fail: boolean) => {
+          if (fail) throw new Error('boom');
+          return 1;
+        })
+      );
+      await act(() => result.current.run(false));
+      await act(() => result.current.run(true));
+      expect(result.current.status).toBe('error');
+      expect(result.current.error).toEqual(new Error('boom'));
+      expect(result.current.data).toBe(1);
+    });
+    it('ignores out-of-order resolutions', async () => {
+      const tasks = [deferred<number>(), deferred<number>()];
+      const signals: AbortSignal[] = [];
+      const { result } = renderHook(() =>
+        useAsyncCallback((signal, index: number) => {
+          signals.push(signal);
+          return tasks[index].promise;
+        })
+      );
+      let first!: Promise<number | undefined>;
+      let second!: Promise<number | undefined>;
+      act(() => {
+        first = result.current.run(0);
+        second = result.current.run(1);
+      });
+      expect(signals[0].aborted).toBe(true);
+      await act(async () => {
+        tasks[1].resolve(2);
+        await second;
+        tasks[0].resolve(1);
+        await first;
+      });
+      expect(await first).toBeUndefined();
+      expect(result.current).toMatchObject({ status: 'success', data: 2 });
+    });
+    it('cancel', async () => {
+      const task = deferred<number>();
+      const { result } = renderHook(() => useAsyncCallback(() => task.promise));
+      let pending!: Promise<number | undefined>;
+      act(() => {
+        pending = result.current.run();
+      });
+      act(() => result.current.cancel());
+      expect(result.current.status).toBe('idle');
+      await act(async () => {
+        task.resolve(1);
+        await pending;
+      });
+      expect(result.current).toMatchObject({ status: 'idle', data: undefined });
+    });
+    it('useAsync reruns on deps change and aborts on unmount', async () => {
+      const signals: AbortSignal[] = [];
+      const tasks = [deferred<number>(), deferred<number>()];
+      const { result, rerender, unmount } = renderHook(
+        ({ id }) =>
+          useAsync(
+            (signal) => {
+              signals.push(signal);
+              return tasks[id].promise;
+            },
+            [id]
+          ),
+        { initialProps: { id: 0 }, wrapper: StrictMode }
+      );
+      expect(result.current.status).toBe('pending');
+      // StrictMode 重新挂载时中止第一次调用
+      expect(signals.map((it) => it.aborted)).toEqual([true, false]);
+      await act(async () => {
+        tasks[0].resolve(1);
+      });
+      expect(result.current).toMatchObject({ status: 'success', data: 1 });
+      rerender({ id: 1 });
+      expect(result.current.status).toBe('pending');
+      unmount();
+      expect(signals[signals.length - 1].aborted).toBe(true);
+    });
+  });
+}
@@ -1,4 +1,5 @@
-import { useRef } from 'react';
+import { DependencyList, useRef } from 'react';
+import { isEquals } from './utilities.ts';
 
 /**
  * 返回一个常量的引用
@@ -6,16 +7,33 @@ import { useRef } from 'react';
  * @example useConstant(() => 'hello world');
  */
 export const useConstant = <T>(init: () => T): T => {
-  const ref = useRef<T>();
-  if (!ref.current) ref.current = init();
-  return ref.current;
+  // 单独记录是否已初始化，避免 `init` 返回假值时重复执行
+  const ref = useRef<{ value: T }>();
+  if (!ref.current) ref.current = { value: init() };
+  return ref.current.value;
+};
+
+/**
+ * 返回一个常量的引用，依赖变化时重新计算
+ * @param init 初始函数
+ * @param deps 依赖，使用 `isEquals` 比较
+ * @example useResettableConstant(() => new Formatter(options), [options]);
+ */
+export const useResettableConstant = <T>(
+  init: () => T,
+  deps: DependencyList
+): T => {
+  const ref = useRef<{ value: T; deps: DependencyList }>();
+  if (!ref.current || !isEquals(ref.current.deps, deps))
+    ref.current = { value: init(), deps };
+  return ref.current.value;
 };
 
 // mod tests
 if (import.meta.vitest) {
-  const { describe, it, expect } = import.meta.vitest;
+  const { describe, it, expect, vi } = import.meta.vitest;
   describe('Tests', async () => {
-    const { useEffect} = await import('react')
+    const { useEffect, StrictMode } = await import('react')
     const { renderHook} = await import('@testing-library/react')
     it('Basic', () => {
       let callCount = 0;
@@ -49,5 +67,54 @@ if (import.meta.vitest) {
       expect(renderCount).toBe(3);
       expect(result.current).toBe(obj);
     });
+    it('Falsy values', () => {
+      for (const value of [0, '', false, null, undefined, NaN]) {
+        const init = vi.fn(() => value);
+        const { result, rerender } = renderHook(() => useConstant(init));
+        rerender();
+        rerender();
+        expect(result.current).toBe(value);
+        expect(init).toHaveBeenCalledTimes(1);
+      }
+    });
+    it('StrictMode', () => {
+      let callCount = 0;
+      const values: number[] = [];
+      const { result, rerender } = renderHook(
+        () => {
+          const value = useConstant(() => (callCount += 1));
+          values.push(value);
+          return value;
+        },
+        { wrapper: StrictMode }
+      );
+      const committed = result.current;
+      rerender();
+      rerender();
+      expect(result.current).toBe(committed);
+      // StrictMode 挂载时会丢弃第一次渲染的 ref，之后的渲染不再执行 init
+      expect(callCount).toBe(2);
+      expect(values.slice(-4)).toEqual(new Array(4).fill(committed));
+    });
+    it('useResettableConstant', () => {
+      const init = vi.fn(() => ({}));
+      const { result, rerender } = renderHook(
+        ({ deps }) => useResettableConstant(init, deps),
+        { initialProps: { deps: [{ a: 1 }, 0] as unknown[] } }
+      );
+      const first = result.current;
+      rerender({ deps: [{ a: 1 }, 0] });
+      expect(result.current).toBe(first);
+      expect(init).toHaveBeenCalledTimes(1);
+      rerender({ deps: [{ a: 2 }, 0] });
+      expect(result.current).not.toBe(first);
+      expect(init).toHaveBeenCalledTimes(2);
+      const falsy = vi.fn(() => 0);
+      const { rerender: rerenderFalsy } = renderHook(() =>
+        useResettableConstant(falsy, [])
+      );
+      rerenderFalsy();
+      expect(falsy).toHaveBeenCalledTimes(1);
+    });
   });
 }
\ No newline at end of file
@@ -0,0 +1,182 @@
+import { Dispatch, SetStateAction, useCallback, useRef, useState } from 'react';
+import { isEquals, isFunction } from './utilities.ts';
+import { useEvent, useLatestRef } from './use-latest.ts';
+
+/**
+ * Options of `useControllableState`
+ */
+export interface UseControllableStateOptions<T> {
+  /**
+   * Controlled value, `undefined` means uncontrolled
+   */
+  value?: T;
+  /**
+   * Initial value in uncontrolled mode
+   */
+  defaultValue: T | (() => T);
+  onChange?: (value: T) => void;
+  /**
+   * Skip `onChange` when the value is unchanged, default `Object.is`
+   * @description 为 `true` 时使用 `isEquals` 比较
+   */
+  equals?: boolean | ((prev: T, next: T) => boolean);
+}
+
+/**
+ * 同时支持受控与非受控的状态，`value` 不为 `undefined` 时为受控模式
+ * @param options
+ * @description 从受控切换为非受控时保留最后一次受控的值，开发环境下切换模式会发出警告
+ * @example
+ * const [open, setOpen] = useControllableState({
+ *   value: props.open,
+ *   defaultValue: props.defaultOpen ?? false,
+ *   onChange: props.onOpenChange,
+ * });
+ */
+export const useControllableState = <T>(
+  options: UseControllableStateOptions<T>
+): [value: T, setValue: Dispatch<SetStateAction<T>>] => {
+  const { value, defaultValue, equals = false } = options;
+  const controlled = value !== void 0;
+  const [inner, setInner] = useState(defaultValue);
+  const [wasControlled, setWasControlled] = useState(controlled);
+  const warned = useRef(false);
+  const lastControlled = useRef(value);
+  if (controlled) lastControlled.current = value;
+
+  if (wasControlled !== controlled) {
+    if (process.env.NODE_ENV !== 'production' && !warned.current) {
+      warned.current = true;
+      console.warn(
+        `useControllableState: a component is changing from ${
+          wasControlled ? 'controlled' : 'uncontrolled'
+        } to ${
+          wasControlled ? 'uncontrolled' : 'controlled'
+        }, decide between using a controlled or uncontrolled value for the lifetime of the component`
+      );
+    }
+    setWasControlled(controlled);
+    if (!controlled) setInner(() => lastControlled.current as T);
+  }
+
+  const current = controlled ? value : inner;
+  // 记录最新的值，同一事件中的多次函数式更新基于上一次的结果
+  const latest = useRef(current);
+  latest.current = current;
+  const controlledRef = useLatestRef(controlled);
+  const onChange = useEvent(options.onChange);
+  const equalsRef = useLatestRef(equals);
+
+  const setValue = useCallback<Dispatch<SetStateAction<T>>>(
+    (action) => {
+      const prev = latest.current;
+      const next = isFunction(action) ? action(prev) : action;
+      const compare = equalsRef.current;
+      const unchanged = isFunction(compare)
+        ? compare(prev, next)
+        : compare
+        ? isEquals(prev, next)
+        : Object.is(prev, next);
+      if (unchanged) return;
+      latest.current = next;
+      if (!controlledRef.current) setInner(() => next);
+      onChange(next);
+    },
+    [controlledRef, equalsRef, onChange]
+  );
+
+  return [current, setValue];
+};
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect, vi, afterEach } = import.meta.vitest;
+
+  describe('Tests', async () => {
+    const { renderHook, act } = await import('@testing-library/react');
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+    it('uncontrolled', () => {
+      const onChange = vi.fn();
+      const { result } = renderHook(() =>
+        useControllableState({ defaultValue: () => 1, onChange })
+      );
+      expect(result.current[0]).toBe(1);
+      act(() => {
+        result.current[1]((prev) => prev + 1);
+        result.current[1]((prev) => prev + 1);
+      });
+      expect(result.current[0]).toBe(3);
+      expect(onChange.mock.calls).toEqual([[2], [3]]);
+    });
+    it('controlled', () => {
+      const onChange = vi.fn();
+      const { result, rerender } = renderHook(
+        ({ value }) =>
+          useControllableState({ value, defaultValue: 0, onChange }),
+        { initialProps: { value: 5 } }
+      );
+      const setValue = result.current[1];
+      act(() => result.current[1]((prev) => prev * 2));
+      expect(onChange).toHaveBeenCalledWith(10);
+      expect(result.current[0]).toBe(5);
+      rerender({ value: 10 });
+      expect(result.current[0]).toBe(10);
+      expect(result.current[1]).toBe(setValue);
+    });
+    it('skips unchanged values', () => {
+      const onChange = vi.fn();
+      const { result, rerender } = renderHook(
+        ({ equals }: { equals?: boolean }) =>
+          useControllableState({ defaultValue: { a: 1 }, onChange, equals }),
+        { initialProps: {} }
+      );
+      act(() => result.current[1](result.current[0]));
+      expect(onChange).not.toHaveBeenCalled();
+      act(() => result.current[1]({ a: 1 }));
+      expect(onChange).toHaveBeenCalledTimes(1);
+      rerender({ equals: true });
+      act(() => result.current[1]({ a: 1 }));
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+    it('switches between modes with a warning', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => void 0);
+      const { result, rerender } = renderHook(
+        ({ value }: { value?: string }) =>
+          useControllableState({ value, defaultValue: 'default' }),
+        { initialProps: { value: 'a' } as { value?: string } }
+      );
+      rerender({ value: 'b' });
+      rerender({});
+      expect(result.current[0]).toBe('b');
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toMatch(
+        'changing from controlled to uncontrolled'
+      );
+      act(() => result.current[1]('c'));
+      expect(result.current[0]).toBe('c');
+      rerender({ value: 'd' });
+      expect(result.current[0]).toBe('d');
+      expect(warn).toHaveBeenCalledTimes(1);
+    });
+    it('keeps setValue stable when onChange toggles', () => {
+      const onChange = vi.fn();
+      const { result, rerender } = renderHook(
+        ({ onChange }: { onChange?: (value: number) => void }) =>
+          useControllableState({ defaultValue: 0, onChange }),
+        { initialProps: {} as { onChange?: (value: number) => void } }
+      );
+      const setValue = result.current[1];
+      rerender({ onChange });
+      expect(result.current[1]).toBe(setValue);
+      act(() => result.current[1](1));
+      expect(onChange).toHaveBeenCalledWith(1);
+      rerender({});
+      expect(result.current[1]).toBe(setValue);
+      act(() => result.current[1](2));
+      expect(result.current[0]).toBe(2);
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+  });
+}
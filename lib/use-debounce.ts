@@ -0,0 +1,210 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  debounce,
+  DebouncedFunc,
+  DebounceOptions,
+  throttle,
+  ThrottledFunc,
+  ThrottleOptions,
+} from './utilities.ts';
+import { useConstant } from './use-constant.ts';
+import { useLatestFunc, useLatestRef } from './use-latest.ts';
+
+/**
+ * 返回一个不变的函数转发到最新的实例，实例变化或卸载时取消等待中的调用
+ * @param controlled
+ */
+const useStableControlled = <T extends (...args: never[]) => unknown>(
+  controlled: DebouncedFunc<T>
+): DebouncedFunc<T> => {
+  const ref = useLatestRef(controlled);
+  useEffect(() => () => controlled.cancel(), [controlled]);
+  return useConstant(() => {
+    function stable(this: ThisParameterType<T>, ...args: Parameters<T>) {
+      return ref.current.apply(this, args);
+    }
+    stable.cancel = () => ref.current.cancel();
+    stable.flush = () => ref.current.flush();
+    stable.pending = () => ref.current.pending();
+    return stable;
+  });
+};
+
+/**
+ * 返回一个不变的防抖函数，始终执行最新的回调
+ * @param callback
+ * @param delay 延迟，变化时会取消等待中的调用
+ * @param options
+ * @example const save = useDebouncedCallback((value: string) => submit(value), 300);
+ */
+export const useDebouncedCallback = <T extends (...args: never[]) => unknown>(
+  callback: T,
+  delay = 500,
+  options: DebounceOptions = {}
+): DebouncedFunc<T> => {
+  const func = useLatestFunc(callback);
+  const { leading, trailing, maxWait } = options;
+  const debounced = useMemo(
+    () => debounce(func, delay, { leading, trailing, maxWait }),
+    [func, delay, leading, trailing, maxWait]
+  );
+  return useStableControlled(debounced);
+};
+
+/**
+ * 返回一个不变的节流函数，始终执行最新的回调
+ * @param callback
+ * @param delay 延迟，为 `raf` 时每个动画帧最多执行一次
+ * @param options
+ * @example const onScroll = useThrottledCallback(() => measure(), 'raf');
+ */
+export const useThrottledCallback = <T extends (...args: never[]) => unknown>(
+  callback: T,
+  delay: number | 'raf' = 500,
+  options: ThrottleOptions = {}
+): ThrottledFunc<T> => {
+  const func = useLatestFunc(callback);
+  const { leading, trailing } = options;
+  const throttled = useMemo(
+    () => throttle(func, delay, { leading, trailing }),
+    [func, delay, leading, trailing]
+  );
+  return useStableControlled(throttled);
+};
+
+/**
+ * 返回防抖后的值
+ * @param value
+ * @param delay
+ * @param options
+ * @example const keyword = useDebouncedValue(input, 300);
+ */
+export const useDebouncedValue = <T>(
+  value: T,
+  delay = 500,
+  options: DebounceOptions = {}
+): T => {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+  const update = useDebouncedCallback(
+    (next: T) => setDebouncedValue(() => next),
+    delay,
+    options
+  );
+  useEffect(() => {
+    update(value);
+  }, [update, value]);
+  return debouncedValue;
+};
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect, vi, beforeEach, afterEach } = import.meta
+    .vitest;
+
+  describe('Tests', async () => {
+    const { renderHook, act } = await import('@testing-library/react');
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+    it('useDebouncedCallback keeps a stable identity and calls the latest callback', () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      const { result, rerender } = renderHook(
+        ({ callback }) => useDebouncedCallback(callback, 100),
+        { initialProps: { callback: first } }
+      );
+      const debounced = result.current;
+      act(() => {
+        result.current(1);
+      });
+      rerender({ callback: second });
+      expect(result.current).toBe(debounced);
+      act(() => {
+        vi.advanceTimersByTime(100);
+      });
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledWith(1);
+    });
+    it('useDebouncedCallback cancels on unmount', () => {
+      const callback = vi.fn();
+      const { result, unmount } = renderHook(() =>
+        useDebouncedCallback(callback, 100)
+      );
+      act(() => {
+        result.current();
+      });
+      expect(result.current.pending()).toBe(true);
+      unmount();
+      vi.advanceTimersByTime(100);
+      expect(callback).not.toHaveBeenCalled();
+    });
+    it('useDebouncedCallback reacts to delay changes', () => {
+      const callback = vi.fn();
+      const { result, rerender } = renderHook(
+        ({ delay }) => useDebouncedCallback(callback, delay),
+        { initialProps: { delay: 100 } }
+      );
+      const debounced = result.current;
+      rerender({ delay: 200 });
+      expect(result.current).toBe(debounced);
+      act(() => {
+        result.current();
+      });
+      act(() => {
+        vi.advanceTimersByTime(100);
+      });
+      expect(callback).not.toHaveBeenCalled();
+      act(() => {
+        vi.advanceTimersByTime(100);
+      });
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+    it('useThrottledCallback', () => {
+      const callback = vi.fn();
+      const { result, unmount } = renderHook(() =>
+        useThrottledCallback(callback, 100)
+      );
+      act(() => {
+        result.current(1);
+        result.current(2);
+        result.current(3);
+      });
+      expect(callback).toHaveBeenCalledTimes(1);
+      act(() => {
+        vi.advanceTimersByTime(100);
+      });
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(callback).toHaveBeenLastCalledWith(3);
+      act(() => {
+        result.current(4);
+        result.current(5);
+      });
+      unmount();
+      vi.advanceTimersByTime(100);
+      expect(callback).toHaveBeenCalledTimes(3);
+    });
+    it('useDebouncedValue', () => {
+      const { result, rerender } = renderHook(
+        ({ value }) => useDebouncedValue(value, 100),
+        { initialProps: { value: 'a' } }
+      );
+      expect(result.current).toBe('a');
+      rerender({ value: 'ab' });
+      act(() => {
+        vi.advanceTimersByTime(50);
+      });
+      rerender({ value: 'abc' });
+      act(() => {
+        vi.advanceTimersByTime(50);
+      });
+      expect(result.current).toBe('a');
+      act(() => {
+        vi.advanceTimersByTime(50);
+      });
+      expect(result.current).toBe('abc');
+    });
+  });
+}
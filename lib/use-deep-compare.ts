@@ -0,0 +1,175 @@
+import {
+  DependencyList,
+  EffectCallback,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+} from 'react';
+import { isEquals } from './utilities.ts';
+
+/**
+ * Compare two dependency lists, default `isEquals`
+ */
+export type DepsComparator = (
+  prevDeps: DependencyList,
+  nextDeps: DependencyList
+) => boolean;
+
+const isPrimitive = (value: unknown) =>
+  value === null || (typeof value !== 'object' && typeof value !== 'function');
+
+/**
+ * 依赖结构相等时返回上一次的依赖数组
+ * @param hook 调用方名称，用于开发环境的警告
+ * @param deps
+ * @param compare
+ */
+const useDeepCompareMemoize = (
+  hook: string,
+  deps: DependencyList,
+  compare: DepsComparator = isEquals
+) => {
+  const ref = useRef<DependencyList>();
+  if (
+    process.env.NODE_ENV !== 'production' &&
+    !ref.current &&
+    deps.length > 0 &&
+    deps.every(isPrimitive)
+  )
+    console.warn(
+      `${hook}: all dependencies are primitive values, use ${hook.replace(
+        'DeepCompare',
+        ''
+      )} instead`
+    );
+  if (!ref.current || !compare(ref.current, deps)) ref.current = deps;
+  return ref.current;
+};
+
+/**
+ * 与 `useEffect` 相同，但使用结构比较依赖
+ * @param effect
+ * @param deps
+ * @param compare 自定义比较函数
+ * @example useDeepCompareEffect(() => fetchList(query), [{ page, size }]);
+ */
+export const useDeepCompareEffect = (
+  effect: EffectCallback,
+  deps: DependencyList,
+  compare?: DepsComparator
+): void => {
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(
+    effect,
+    useDeepCompareMemoize('useDeepCompareEffect', deps, compare)
+  );
+};
+
+/**
+ * 与 `useMemo` 相同，但使用结构比较依赖
+ * @param factory
+ * @param deps
+ * @param compare 自定义比较函数
+ * @example const columns = useDeepCompareMemo(() => buildColumns(options), [options]);
+ */
+export const useDeepCompareMemo = <T>(
+  factory: () => T,
+  deps: DependencyList,
+  compare?: DepsComparator
+): T => {
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  return useMemo(
+    factory,
+    useDeepCompareMemoize('useDeepCompareMemo', deps, compare)
+  );
+};
+
+/**
+ * 与 `useCallback` 相同，但使用结构比较依赖
+ * @param callback
+ * @param deps
+ * @param compare 自定义比较函数
+ * @example const search = useDeepCompareCallback(() => request(filters), [filters]);
+ */
+export const useDeepCompareCallback = <T extends (...args: never[]) => unknown>(
+  callback: T,
+  deps: DependencyList,
+  compare?: DepsComparator
+): T => {
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  return useCallback(
+    callback,
+    useDeepCompareMemoize('useDeepCompareCallback', deps, compare)
+  );
+};
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect, vi, afterEach } = import.meta.vitest;
+
+  describe('Tests', async () => {
+    const { renderHook } = await import('@testing-library/react');
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+    it('useDeepCompareEffect reruns only on structural changes', () => {
+      const effect = vi.fn();
+      const { rerender } = renderHook(
+        ({ options }) => useDeepCompareEffect(effect, [options]),
+        { initialProps: { options: { page: 1, tags: ['a'] } } }
+      );
+      rerender({ options: { page: 1, tags: ['a'] } });
+      expect(effect).toHaveBeenCalledTimes(1);
+      rerender({ options: { page: 1, tags: ['a', 'b'] } });
+      expect(effect).toHaveBeenCalledTimes(2);
+    });
+    it('useDeepCompareMemo and useDeepCompareCallback', () => {
+      const { result, rerender } = renderHook(
+        ({ options }) => ({
+          memo: useDeepCompareMemo(() => ({ ...options }), [options]),
+          callback: useDeepCompareCallback(() => options.page, [options]),
+        }),
+        { initialProps: { options: { page: 1 } } }
+      );
+      const first = result.current;
+      rerender({ options: { page: 1 } });
+      expect(result.current.memo).toBe(first.memo);
+      expect(result.current.callback).toBe(first.callback);
+      rerender({ options: { page: 2 } });
+      expect(result.current.memo).toEqual({ page: 2 });
+      expect(result.current.callback()).toBe(2);
+    });
+    it('custom comparator', () => {
+      const effect = vi.fn();
+      const { rerender } = renderHook(
+        ({ user }) =>
+          useDeepCompareEffect(effect, [user], (prev, next) =>
+            isEquals(prev, next, {
+              compare: (x, y) =>
+                x instanceof Object && y instanceof Object && 'id' in x
+                  ? Reflect.get(x, 'id') === Reflect.get(y, 'id')
+                  : void 0,
+            })
+          ),
+        { initialProps: { user: { id: 1, name: 'a' } } }
+      );
+      rerender({ user: { id: 1, name: 'b' } });
+      expect(effect).toHaveBeenCalledTimes(1);
+      rerender({ user: { id: 2, name: 'b' } });
+      expect(effect).toHaveBeenCalledTimes(2);
+    });
+    it('warns when all dependencies are primitive', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => void 0);
+      renderHook(() => useDeepCompareMemo(() => 1, [1, 'a']));
+      expect(warn).toHaveBeenCalledWith(
+        'useDeepCompareMemo: all dependencies are primitive values, use useMemo instead'
+      );
+      warn.mockClear();
+      renderHook(() => useDeepCompareMemo(() => 1, [1, {}]));
+      renderHook(() => useDeepCompareEffect(() => void 0, []));
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+}
@@ -0,0 +1,467 @@
+import {
+  DependencyList,
+  RefObject,
+  useCallback,
+  useEffect,
+  useRef,
+  useSyncExternalStore,
+} from 'react';
+import { useLatestFunc } from './use-latest.ts';
+
+/**
+ * A target or a ref of the target, `null` and `undefined` are ignored
+ */
+export type BasicTarget<T extends EventTarget = EventTarget> =
+  | T
+  | null
+  | undefined
+  | RefObject<T>;
+
+const resolveTarget = <T extends EventTarget>(
+  target: BasicTarget<T>
+): T | null => {
+  if (!target) return null;
+  if (typeof (target as EventTarget).addEventListener === 'function')
+    return target as T;
+  return (target as RefObject<T>).current;
+};
+
+/**
+ * 目标或依赖变化时重新执行 effect，ref 的目标变化同样会触发
+ * @param target
+ * @param effect
+ * @param deps
+ */
+const useTargetEffect = <T extends EventTarget>(
+  target: BasicTarget<T>,
+  effect: (element: T) => void | (() => void),
+  deps: DependencyList
+) => {
+  const ref = useRef<{
+    element: T | null;
+    deps: DependencyList;
+    cleanup?: void | (() => void);
+  }>();
+  // ref 的目标只能在提交后读取，因此每次渲染后检查
+  useEffect(() => {
+    const element = resolveTarget(target);
+    const prev = ref.current;
+    if (
+      prev &&
+      prev.element === element &&
+      prev.deps.length === deps.length &&
+      prev.deps.every((it, index) => Object.is(it, deps[index]))
+    )
+      return;
+    prev?.cleanup?.();
+    ref.current = {
+      element,
+      deps,
+      cleanup: element ? effect(element) : void 0,
+    };
+  });
+  useEffect(
+    () => () => {
+      ref.current?.cleanup?.();
+      ref.current = void 0;
+    },
+    []
+  );
+};
+
+/**
+ * 添加事件监听，卸载时自动移除
+ * @param target 目标或目标的 ref
+ * @param type
+ * @param listener 始终调用最新的函数，变化时不会重新绑定
+ * @param options
+ * @example useEventListener(window, 'resize', () => measure());
+ */
+export function useEventListener<K extends keyof WindowEventMap>(
+  target: BasicTarget<Window>,
+  type: K,
+  listener: (event: WindowEventMap[K]) => void,
+  options?: boolean | AddEventListenerOptions
+): void;
+export function useEventListener<K extends keyof DocumentEventMap>(
+  target: BasicTarget<Document>,
+  type: K,
+  listener: (event: DocumentEventMap[K]) => void,
+  options?: boolean | AddEventListenerOptions
+): void;
+export function useEventListener<K extends keyof HTMLElementEventMap>(
+  target: BasicTarget<HTMLElement>,
+  type: K,
+  listener: (event: HTMLElementEventMap[K]) => void,
+  options?: boolean | AddEventListenerOptions
+): void;
+export function useEventListener(
+  target: BasicTarget,
+  type: string,
+  listener: (event: Event) => void,
+  options?: boolean | AddEventListenerOptions
+): void;
+export function useEventListener(
+  target: BasicTarget,
+  type: string,
+  listener: (event: Event) => void,
+  options: boolean | AddEventListenerOptions = {}
+): void {
+  const handler = useLatestFunc(listener);
+  const { capture, passive, once }: AddEventListenerOptions =
+    typeof options === 'boolean' ? { capture: options } : options;
+  useTargetEffect(
+    target,
+    (element) => {
+      element.addEventListener(type, handler, { capture, passive, once });
+      return () => element.removeEventListener(type, handler, { capture });
+    },
+    [type, handler, capture, passive, once]
+  );
+}
+
+interface SharedObserver<E> {
+  observe: (element: Element, callback: (entry: E) => void) => () => void;
+}
+
+/**
+ * 多个元素共享同一个观察器，所有元素取消观察后断开连接
+ * @param create
+ * @param onEmpty
+ * @description 观察器只在开始观察时发送初始状态，之后订阅同一元素的回调会立即收到最近一次的结果
+ */
+const createSharedObserver = <E extends { target: Element }>(
+  create: (callback: (entries: E[]) => void) => {
+    observe: (element: Element) => void;
+    unobserve: (element: Element) => void;
+    disconnect: () => void;
+  },
+  onEmpty: () => void
+): SharedObserver<E> => {
+  const callbacks = new Map<Element, Set<(entry: E) => void>>();
+  const lastEntries = new Map<Element, E>();
+  const observer = create((entries) => {
+    for (const entry of entries) {
+      const set = callbacks.get(entry.target);
+      if (!set) continue;
+      lastEntries.set(entry.target, entry);
+      set.forEach((callback) => callback(entry));
+    }
+  });
+  return {
+    observe: (element, callback) => {
+      const set = callbacks.get(element) ?? new Set();
+      if (set.size === 0) {
+        callbacks.set(element, set);
+        observer.observe(element);
+      }
+      set.add(callback);
+      const last = lastEntries.get(element);
+      if (last) callback(last);
+      return () => {
+        set.delete(callback);
+        if (set.size > 0) return;
+        callbacks.delete(element);
+        lastEntries.delete(element);
+        observer.unobserve(element);
+        if (callbacks.size > 0) return;
+        observer.disconnect();
+        onEmpty();
+      };
+    },
+  };
+};
+
+const resizeObservers = new Map<
+  ResizeObserverBoxOptions,
+  SharedObserver<ResizeObserverEntry>
+>();
+
+/**
+ * 观察元素尺寸变化，相同 `box` 的调用共享一个 `ResizeObserver`
+ * @param target 元素或元素的 ref
+ * @param callback 始终调用最新的函数
+ * @param options
+ * @example useResizeObserver(ref, (entry) => setWidth(entry.contentRect.width));
+ */
+export const useResizeObserver = (
+  target: BasicTarget<Element>,
+  callback: (entry: ResizeObserverEntry) => void,
+  options: ResizeObserverOptions = {}
+): void => {
+  const handler = useLatestFunc(callback);
+  const { box = 'content-box' } = options;
+  useTargetEffect(
+    target,
+    (element) => {
+      if (typeof ResizeObserver === 'undefined') return;
+      let shared = resizeObservers.get(box);
+      if (!shared) {
+        shared = createSharedObserver(
+          (cb) => {
+            const observer = new ResizeObserver(cb);
+            return {
+              observe: (element) => observer.observe(element, { box }),
+              unobserve: (element) => observer.unobserve(element),
+              disconnect: () => observer.disconnect(),
+            };
+          },
+          () => resizeObservers.delete(box)
+        );
+        resizeObservers.set(box, shared);
+      }
+      return shared.observe(element, handler);
+    },
+    [handler, box]
+  );
+};
+
+const intersectionObservers = new Map<
+  Element | Document | null,
+  Map<string, SharedObserver<IntersectionObserverEntry>>
+>();
+
+/**
+ * 观察元素与视口或 `root` 的交叉状态，选项相同的调用共享一个 `IntersectionObserver`
+ * @param target 元素或元素的 ref
+ * @param callback 始终调用最新的函数
+ * @param options
+ * @example useIntersectionObserver(ref, (entry) => entry.isIntersecting && loadMore(), { rootMargin: '200px' });
+ */
+export const useIntersectionObserver = (
+  target: BasicTarget<Element>,
+  callback: (entry: IntersectionObserverEntry) => void,
+  options: IntersectionObserverInit = {}
+): void => {
+  const handler = useLatestFunc(callback);
+  const { root = null, rootMargin = '0px', threshold = 0 } = options;
+  const thresholds = ([] as number[]).concat(threshold).join(',');
+  useTargetEffect(
+    target,
+    (element) => {
+      if (typeof IntersectionObserver === 'undefined') return;
+      const key = `${rootMargin}|${thresholds}`;
+      let pool = intersectionObservers.get(root);
+      if (!pool) {
+        pool = new Map();
+        intersectionObservers.set(root, pool);
+      }
+      let shared = pool.get(key);
+      if (!shared) {
+        const current = pool;
+        shared = createSharedObserver(
+          (cb) =>
+            new IntersectionObserver(cb, {
+              root,
+              rootMargin,
+              threshold: thresholds.split(',').map(Number),
+            }),
+          () => {
+            current.delete(key);
+            if (current.size === 0) intersectionObservers.delete(root);
+          }
+        );
+        pool.set(key, shared);
+      }
+      return shared.observe(element, handler);
+    },
+    [handler, root, rootMargin, thresholds]
+  );
+};
+
+/**
+ * 返回媒体查询是否匹配
+ * @param query
+ * @param defaultValue 服务端渲染或不支持 `matchMedia` 时的值，默认 `false`
+ * @example const isDark = useMediaQuery('(prefers-color-scheme: dark)');
+ */
+export const useMediaQuery = (query: string, defaultValue = false): boolean => {
+  const supported =
+    typeof window !== 'undefined' && typeof window.matchMedia === 'function';
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      if (!supported) return () => void 0;
+      const list = window.matchMedia(query);
+      // Safari < 14 仅支持 addListener
+      if (typeof list.addEventListener === 'function') {
+        list.addEventListener('change', onChange);
+        return () => list.removeEventListener('change', onChange);
+      }
+      list.addListener(onChange);
+      return () => list.removeListener(onChange);
+    },
+    [query, supported]
+  );
+  return useSyncExternalStore(
+    subscribe,
+    () => (supported ? window.matchMedia(query).matches : defaultValue),
+    () => defaultValue
+  );
+};
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect, vi, afterEach } = import.meta.vitest;
+
+  describe('Tests', async () => {
+    const { createRef } = await import('react');
+    const { renderHook, act } = await import('@testing-library/react');
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+    it('useEventListener', () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      const element = document.createElement('div');
+      const add = vi.spyOn(element, 'addEventListener');
+      const { rerender, unmount } = renderHook(
+        ({ listener }) => useEventListener(element, 'click', listener),
+        { initialProps: { listener: first } }
+      );
+      rerender({ listener: second });
+      element.click();
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledTimes(1);
+      expect(add).toHaveBeenCalledTimes(1);
+      unmount();
+      element.click();
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+    it('useEventListener with refs, window and document', () => {
+      const ref = createRef<HTMLButtonElement>();
+      const listener = vi.fn();
+      const { rerender } = renderHook(() => {
+        useEventListener(ref, 'click', listener);
+        useEventListener(window, 'resize', listener);
+        useEventListener(document, 'visibilitychange', listener);
+      });
+      const button = document.createElement('button');
+      (ref as { current: HTMLButtonElement }).current = button;
+      rerender();
+      button.click();
+      window.dispatchEvent(new Event('resize'));
+      document.dispatchEvent(new Event('visibilitychange'));
+      expect(listener).toHaveBeenCalledTimes(3);
+      renderHook(() => useEventListener(null, 'click', listener));
+    });
+    it('useResizeObserver shares one observer', () => {
+      const instances: Array<{
+        callback: (entries: unknown[]) => void;
+        observe: ReturnType<typeof vi.fn>;
+        disconnect: ReturnType<typeof vi.fn>;
+      }> = [];
+      vi.stubGlobal(
+        'ResizeObserver',
+        class {
+          observe = vi.fn();
+          unobserve = vi.fn();
+          disconnect = vi.fn();
+          constructor(public callback: (entries: unknown[]) => void) {
+            instances.push(this);
+          }
+        }
+      );
+      const a = document.createElement('div');
+      const b = document.createElement('div');
+      const onA = vi.fn();
+      const onB = vi.fn();
+      const first = renderHook(() => useResizeObserver(a, onA));
+      const second = renderHook(() => useResizeObserver(b, onB));
+      expect(instances).toHaveLength(1);
+      expect(instances[0].observe).toHaveBeenCalledTimes(2);
+      act(() => instances[0].callback([{ target: b }]));
+      expect(onA).not.toHaveBeenCalled();
+      expect(onB).toHaveBeenCalledWith({ target: b });
+      first.unmount();
+      expect(instances[0].disconnect).not.toHaveBeenCalled();
+      second.unmount();
+      expect(instances[0].disconnect).toHaveBeenCalled();
+    });
+    it('useIntersectionObserver groups by options', () => {
+      const options: IntersectionObserverInit[] = [];
+      const instances: {
+        callback: (entries: unknown[]) => void;
+        observe: ReturnType<typeof vi.fn>;
+      }[] = [];
+      vi.stubGlobal(
+        'IntersectionObserver',
+        class {
+          observe = vi.fn();
+          unobserve = vi.fn();
+          disconnect = vi.fn();
+          constructor(
+            public callback: (entries: unknown[]) => void,
+            init: IntersectionObserverInit
+          ) {
+            options.push(init);
+            instances.push(this);
+          }
+        }
+      );
+      const element = document.createElement('div');
+      const first = vi.fn();
+      const second = vi.fn();
+      const hooks = renderHook(() => {
+        useIntersectionObserver(element, first, { threshold: [0, 1] });
+        useIntersectionObserver(element, second, { threshold: [0, 1] });
+        useIntersectionObserver(element, vi.fn(), { rootMargin: '10px' });
+      });
+      expect(options).toEqual([
+        { root: null, rootMargin: '0px', threshold: [0, 1] },
+        { root: null, rootMargin: '10px', threshold: [0] },
+      ]);
+      const entry = { target: element, isIntersecting: true };
+      act(() => instances[0].callback([entry]));
+      expect(first).toHaveBeenCalledWith(entry);
+      expect(second).toHaveBeenCalledWith(entry);
+      // 之后订阅同一元素时收到最近一次的结果
+      const late = vi.fn();
+      const lateHook = renderHook(() =>
+        useIntersectionObserver(element, late, { threshold: [0, 1] })
+      );
+      expect(late).toHaveBeenCalledWith(entry);
+      expect(instances[0].observe).toHaveBeenCalledTimes(1);
+      lateHook.unmount();
+      hooks.unmount();
+    });
+    it('observers are ignored when unsupported', () => {
+      vi.stubGlobal('ResizeObserver', undefined);
+      vi.stubGlobal('IntersectionObserver', undefined);
+      const element = document.createElement('div');
+      expect(() =>
+        renderHook(() => {
+          useResizeObserver(element, vi.fn());
+          useIntersectionObserver(element, vi.fn());
+        }).unmount()
+      ).not.toThrow();
+    });
+    it('useMediaQuery', () => {
+      expect(
+        renderHook(() => useMediaQuery('(min-width: 1px)', true)).result.current
+      ).toBe(true);
+      const listeners = new Set<() => void>();
+      let matches = false;
+      vi.stubGlobal('matchMedia', (media: string) => ({
+        media,
+        get matches() {
+          return matches;
+        },
+        addEventListener: (_: string, listener: () => void) =>
+          listeners.add(listener),
+        removeEventListener: (_: string, listener: () => void) =>
+          listeners.delete(listener),
+      }));
+      const { result, unmount } = renderHook(() =>
+        useMediaQuery('(min-width: 600px)')
+      );
+      expect(result.current).toBe(false);
+      act(() => {
+        matches = true;
+        listeners.forEach((listener) => listener());
+      });
+      expect(result.current).toBe(true);
+      unmount();
+      expect(listeners.size).toBe(0);
+    });
+  });
+}
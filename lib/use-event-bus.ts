@@ -0,0 +1,74 @@
+import { useEffect } from 'react';
+import { Emitter, EventHandler, EventMap, WildcardHandler } from './emitter.ts';
+import { useLatestFunc } from './use-latest.ts';
+
+/**
+ * 订阅事件，卸载时自动取消订阅
+ * @param emitter 为 `null` 或 `undefined` 时不订阅
+ * @param type 为 `*` 时订阅所有事件
+ * @param handler 始终调用最新的函数，变化时不会重新订阅
+ * @example useEventBus(bus, 'login', ({ id }) => setUserId(id));
+ */
+export function useEventBus<Events extends EventMap, K extends keyof Events>(
+  emitter: Emitter<Events> | null | undefined,
+  type: K,
+  handler: EventHandler<Events[K]>
+): void;
+export function useEventBus<Events extends EventMap>(
+  emitter: Emitter<Events> | null | undefined,
+  type: '*',
+  handler: WildcardHandler<Events>
+): void;
+export function useEventBus(
+  emitter: Emitter<EventMap> | null | undefined,
+  type: PropertyKey,
+  handler: (...args: never[]) => void
+): void {
+  const listener = useLatestFunc(handler);
+  useEffect(
+    () => emitter?.on(type, listener as EventHandler<unknown>),
+    [emitter, type, listener]
+  );
+}
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect, vi } = import.meta.vitest;
+
+  describe('Tests', async () => {
+    const { renderHook } = await import('@testing-library/react');
+    const { StrictMode } = await import('react');
+    const { createEmitter } = await import('./emitter.ts');
+    type Events = { count: number; reset: undefined };
+    it('subscribes with the latest handler', () => {
+      const emitter = createEmitter<Events>();
+      const on = vi.spyOn(emitter, 'on');
+      const first = vi.fn();
+      const second = vi.fn();
+      const { rerender, unmount } = renderHook(
+        ({ handler }) => useEventBus(emitter, 'count', handler),
+        { initialProps: { handler: first }, wrapper: StrictMode }
+      );
+      rerender({ handler: second });
+      emitter.emit('count', 1);
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledWith(1);
+      // StrictMode 重新挂载时订阅两次
+      expect(on).toHaveBeenCalledTimes(2);
+      expect(emitter.listenerCount('count')).toBe(1);
+      unmount();
+      expect(emitter.listenerCount('count')).toBe(0);
+    });
+    it('wildcard and missing emitter', () => {
+      const emitter = createEmitter<Events>();
+      const handler = vi.fn();
+      const { rerender } = renderHook(
+        ({ bus }) => useEventBus(bus, '*', handler),
+        { initialProps: { bus: null as typeof emitter | null } }
+      );
+      rerender({ bus: emitter });
+      emitter.emit('reset');
+      expect(handler).toHaveBeenCalledWith('reset', undefined);
+    });
+  });
+}
@@ -1,4 +1,10 @@
-import { MutableRefObject, useCallback, useRef } from 'react';
+import * as React from 'react';
+import {
+  MutableRefObject,
+  useCallback,
+  useInsertionEffect,
+  useRef,
+} from 'react';
 
 /**
  * 返回数据最新的引用
@@ -24,9 +30,55 @@ export const useLatestFunc = <
   return (ref.current ? apply : void 0) as T;
 };
 
+// 开发环境下 React 在渲染组件期间会设置 `ReactCurrentOwner.current`，提交阶段为 `null`
+const isRendering = () =>
+  (
+    React as unknown as {
+      __SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED?: {
+        ReactCurrentOwner?: { current: unknown };
+      };
+    }
+  ).__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED?.ReactCurrentOwner
+    ?.current != null;
+
+const throwOnRender = () => {
+  throw new Error(
+    'useEvent: the returned function cannot be called during render'
+  );
+};
+
+interface UseEvent {
+  <T extends (...args: never[]) => unknown>(func: T): T;
+  <T extends (...args: never[]) => unknown>(func: T | undefined): (
+    this: ThisParameterType<T>,
+    ...args: Parameters<T>
+  ) => ReturnType<T> | undefined;
+}
+/**
+ * 返回一个不变的函数执行最新的函数
+ * @param func 为 `undefined` 时返回的函数不执行任何操作
+ * @description 与 `useLatestFunc` 不同，始终返回同一个函数，并在 insertion effect 中更新引用，因此不能在渲染期间调用（开发环境下会抛出错误），可在 layout effect 中调用
+ * @example const onChange = useEvent(props.onChange);
+ */
+export const useEvent: UseEvent = <T extends (...args: never[]) => unknown>(
+  func: T | undefined
+) => {
+  // 首次提交前调用时抛出错误
+  const ref = useRef<T | typeof throwOnRender | undefined>(throwOnRender);
+  // 在所有 layout effect 之前执行，子组件的 layout effect 可以调用最新的函数
+  useInsertionEffect(() => {
+    ref.current = func;
+  });
+  return useCallback(function (this: unknown, ...args: unknown[]) {
+    if (process.env.NODE_ENV !== 'production' && isRendering())
+      throwOnRender();
+    return ref.current?.apply(this, args as never[]);
+  }, []);
+};
+
 // mod tests
 if (import.meta.vitest) {
-  const { describe, it, expect, vi } = import.meta.vitest;
+  const { describe, it, expect, expectTypeOf, vi } = import.meta.vitest;
 
   describe('Tests', async () => {
     const { renderHook, act } = await import('@testing-library/react');
@@ -69,5 +121,88 @@ if (import.meta.vitest) {
 
       expect(result.current).toBe(undefined)
     });
+    it('useEvent keeps a stable identity when the function toggles', () => {
+      const firstFunc = vi.fn((value: number) => value);
+      const secondFunc = vi.fn((value: number) => value * 2);
+      const { result, rerender } = renderHook(({ func }) => useEvent(func), {
+        initialProps: {
+          func: firstFunc as ((value: number) => number) | undefined,
+        },
+      });
+      const event = result.current;
+      expect(result.current(1)).toBe(1);
+      rerender({ func: undefined });
+      expect(result.current).toBe(event);
+      expect(result.current(1)).toBe(undefined);
+      rerender({ func: secondFunc });
+      expect(result.current).toBe(event);
+      expect(result.current(1)).toBe(2);
+      expect(firstFunc).toHaveBeenCalledTimes(1);
+    });
+    it('useEvent preserves this and parameter types', () => {
+      const { result } = renderHook(() =>
+        useEvent(function (this: { base: number }, value: number) {
+          return this.base + value;
+        })
+      );
+      expectTypeOf(result.current).parameters.toEqualTypeOf<[number]>();
+      expectTypeOf(result.current).thisParameter.toEqualTypeOf<{
+        base: number;
+      }>();
+      expect(result.current.call({ base: 1 }, 2)).toBe(3);
+      const { result: optional } = renderHook(() =>
+        useEvent(undefined as ((value: string) => number) | undefined)
+      );
+      expectTypeOf(optional.current).returns.toEqualTypeOf<number | undefined>();
+    });
+    it('useEvent throws when called during render', () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => void 0);
+      expect(() =>
+        renderHook(() => {
+          const event = useEvent(() => 1);
+          return event();
+        })
+      ).toThrow('useEvent: the returned function cannot be called during render');
+      const { result, rerender } = renderHook(
+        ({ value, call }) => {
+          const event = useEvent(() => value);
+          return call ? event() : event;
+        },
+        { initialProps: { value: 1, call: false } }
+      );
+      expect(() => rerender({ value: 2, call: true })).toThrow(
+        'useEvent: the returned function cannot be called during render'
+      );
+      // 未提交的渲染不影响之后的调用
+      expect((result.current as () => number)()).toBe(1);
+      rerender({ value: 3, call: false });
+      expect((result.current as () => number)()).toBe(3);
+      error.mockRestore();
+    });
+    it('useEvent can be called in layout effects of children', async () => {
+      const { render } = await import('@testing-library/react');
+      const { createElement, useLayoutEffect } = await import('react');
+      const calls: string[] = [];
+      const Child = ({ onReady }: { onReady: (from: string) => void }) => {
+        useLayoutEffect(() => {
+          onReady('effect');
+        });
+        return createElement('div', {
+          ref: (node: HTMLDivElement | null) => {
+            if (node) onReady('ref');
+          },
+        });
+      };
+      const Parent = ({ name }: { name: string }) => {
+        const onReady = useEvent((from: string) => {
+          calls.push(`${name}:${from}`);
+        });
+        return createElement(Child, { onReady });
+      };
+      const { rerender } = render(createElement(Parent, { name: 'a' }));
+      expect(calls).toEqual(['a:ref', 'a:effect']);
+      rerender(createElement(Parent, { name: 'b' }));
+      expect(calls.slice(2)).toEqual(['b:ref', 'b:effect']);
+    });
   });
 }
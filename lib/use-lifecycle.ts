@@ -0,0 +1,153 @@
+import {
+  DependencyList,
+  EffectCallback,
+  MutableRefObject,
+  useEffect,
+  useRef,
+} from 'react';
+
+/**
+ * 返回上一个不同的值，首次渲染时为 `undefined`
+ * @param value
+ * @description 仅在值变化（`Object.is`）时更新，因此与渲染次数无关，重复渲染不会丢失上一个值
+ * @example const prevCount = usePrevious(count);
+ */
+export const usePrevious = <T>(value: T): T | undefined => {
+  const ref = useRef<{ value: T; prev?: T }>();
+  if (!ref.current) ref.current = { value };
+  else if (!Object.is(ref.current.value, value))
+    ref.current = { value, prev: ref.current.value };
+  return ref.current.prev;
+};
+
+/**
+ * 返回组件是否已挂载的引用
+ * @description 在 effect 中更新，渲染期间以及服务端渲染时为 `false`
+ * @example
+ * const mounted = useMountedRef();
+ * fetchData().then((data) => mounted.current && setData(data));
+ */
+export const useMountedRef = (): Readonly<MutableRefObject<boolean>> => {
+  const ref = useRef(false);
+  useEffect(() => {
+    ref.current = true;
+    return () => {
+      ref.current = false;
+    };
+  }, []);
+  return ref;
+};
+
+/**
+ * 返回是否为首次渲染
+ * @description 挂载完成之前的渲染均视为首次渲染
+ * @example const isFirstRender = useIsFirstRender();
+ */
+export const useIsFirstRender = (): boolean => !useMountedRef().current;
+
+/**
+ * 与 `useEffect` 相同，但跳过挂载时的执行
+ * @param effect
+ * @param deps
+ * @example useUpdateEffect(() => onChange(value), [value]);
+ */
+export const useUpdateEffect = (
+  effect: EffectCallback,
+  deps?: DependencyList
+): void => {
+  // 记录挂载时的依赖，StrictMode 重新挂载时依赖数组不变，同样跳过
+  const mountDeps = useRef<object>();
+  // 未传入依赖时每次渲染都生成新的标记
+  const currentDeps = deps ?? {};
+  useEffect(() => {
+    if (!mountDeps.current) {
+      mountDeps.current = currentDeps;
+      return;
+    }
+    if (mountDeps.current === currentDeps) return;
+    return effect();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps);
+};
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect, vi } = import.meta.vitest;
+
+  describe('Tests', async () => {
+    const { StrictMode } = await import('react');
+    const { renderHook } = await import('@testing-library/react');
+    it('usePrevious', () => {
+      const { result, rerender } = renderHook(
+        ({ value }) => usePrevious(value),
+        { initialProps: { value: 1 } }
+      );
+      expect(result.current).toBeUndefined();
+      rerender({ value: 2 });
+      expect(result.current).toBe(1);
+      rerender({ value: 2 });
+      expect(result.current).toBe(1);
+      rerender({ value: 3 });
+      expect(result.current).toBe(2);
+    });
+    it('usePrevious in StrictMode', () => {
+      const { result, rerender } = renderHook(
+        ({ value }) => usePrevious(value),
+        { initialProps: { value: 'a' }, wrapper: StrictMode }
+      );
+      expect(result.current).toBeUndefined();
+      rerender({ value: 'b' });
+      expect(result.current).toBe('a');
+    });
+    it('useMountedRef', () => {
+      const values: boolean[] = [];
+      const { result, rerender, unmount } = renderHook(
+        () => {
+          const mounted = useMountedRef();
+          values.push(mounted.current);
+          return mounted;
+        },
+        { wrapper: StrictMode }
+      );
+      expect(values.every((it) => !it)).toBe(true);
+      expect(result.current.current).toBe(true);
+      rerender();
+      expect(values[values.length - 1]).toBe(true);
+      const ref = result.current;
+      unmount();
+      expect(ref.current).toBe(false);
+    });
+    it('useIsFirstRender', () => {
+      const { result, rerender } = renderHook(() => useIsFirstRender(), {
+        wrapper: StrictMode,
+      });
+      expect(result.current).toBe(true);
+      rerender();
+      expect(result.current).toBe(false);
+    });
+    it('useUpdateEffect', () => {
+      const cleanup = vi.fn();
+      const effect = vi.fn(() => cleanup);
+      const { rerender, unmount } = renderHook(
+        ({ value }) => useUpdateEffect(effect, [value]),
+        { initialProps: { value: 1 }, wrapper: StrictMode }
+      );
+      expect(effect).not.toHaveBeenCalled();
+      rerender({ value: 1 });
+      expect(effect).not.toHaveBeenCalled();
+      rerender({ value: 2 });
+      expect(effect).toHaveBeenCalledTimes(1);
+      unmount();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+    it('useUpdateEffect without deps', () => {
+      const effect = vi.fn();
+      const { rerender } = renderHook(() => useUpdateEffect(effect), {
+        wrapper: StrictMode,
+      });
+      expect(effect).not.toHaveBeenCalled();
+      rerender();
+      expect(effect).toHaveBeenCalledTimes(1);
+    });
+  });
+}
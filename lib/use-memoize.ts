@@ -0,0 +1,43 @@
+import { memoize, MemoizedFunc, MemoizeOptions } from './utilities.ts';
+import { useConstant } from './use-constant.ts';
+
+/**
+ * 返回一个在组件生命周期内共享缓存的记忆化函数
+ * @param func 仅使用首次渲染时的函数
+ * @param options 仅使用首次渲染时的选项
+ * @example const format = useMemoize((value: number) => formatter.format(value), { maxSize: 50 });
+ */
+export const useMemoize = <T extends (...args: never[]) => unknown>(
+  func: T,
+  options?: MemoizeOptions<T>
+): MemoizedFunc<T> => useConstant(() => memoize(func, options));
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect, vi } = import.meta.vitest;
+
+  describe('Tests', async () => {
+    const { renderHook } = await import('@testing-library/react');
+    it('useMemoize keeps the cache across renders', () => {
+      const fn = vi.fn((value: number) => value * 2);
+      const { result, rerender } = renderHook(() => useMemoize(fn));
+      const memoized = result.current;
+      expect(result.current(1)).toBe(2);
+      rerender();
+      expect(result.current).toBe(memoized);
+      expect(result.current(1)).toBe(2);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+    it('useMemoize scopes the cache to the component', () => {
+      const fn = vi.fn((value: number) => value * 2);
+      const first = renderHook(() => useMemoize(fn, { maxSize: 1 }));
+      const second = renderHook(() => useMemoize(fn, { maxSize: 1 }));
+      first.result.current(1);
+      second.result.current(1);
+      expect(fn).toHaveBeenCalledTimes(2);
+      first.result.current(2);
+      expect(first.result.current.cache.has(1)).toBe(false);
+      expect(second.result.current.cache.has(1)).toBe(true);
+    });
+  });
+}
@@ -0,0 +1,356 @@
+import {
+  SetStateAction,
+  useCallback,
+  useMemo,
+  useSyncExternalStore,
+} from 'react';
+import { isFunction } from './utilities.ts';
+import { useConstant } from './use-constant.ts';
+import { useLatestRef } from './use-latest.ts';
+
+/**
+ * Convert values from and to the stored string
+ */
+export interface StorageSerializer<T> {
+  read: (raw: string) => T;
+  write: (value: T) => string;
+}
+
+/**
+ * Options of `useStorageState`
+ */
+export interface UseStorageStateOptions<T> {
+  /**
+   * Storage or a getter of it, default `localStorage`
+   * @description 使用函数可避免在服务端渲染时访问 `window`
+   */
+  storage?: Storage | (() => Storage);
+  /**
+   * Default `JSON.parse` and `JSON.stringify`
+   */
+  serializer?: StorageSerializer<T>;
+  /**
+   * Stored values failing the validation are ignored
+   * @example { validate: isString }
+   */
+  validate?: (value: unknown) => value is T;
+  /**
+   * Called when reading or writing the storage fails, default `console.warn`
+   */
+  onError?: (error: unknown) => void;
+}
+
+export type StorageStateDispatch<T> = (action: SetStateAction<T>) => void;
+
+const jsonSerializer: StorageSerializer<unknown> = {
+  read: JSON.parse,
+  write: JSON.stringify,
+};
+
+// 同一页面内的订阅者，`storage` 事件只会在其他页面触发
+const listeners = new Set<(storage: Storage, key: string) => void>();
+// 写入失败（例如超出配额）时保存在内存中的值，`null` 表示已移除
+const fallbacks = new WeakMap<Storage, Map<string, string | null>>();
+
+// 无法访问 `Storage` 时使用，值只在当前页面内保留
+const memoryStorage: Storage = (() => {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      items.set(key, String(value));
+    },
+  };
+})();
+
+const notify = (storage: Storage, key: string) =>
+  listeners.forEach((listener) => listener(storage, key));
+
+const resolveStorage = (
+  storage: UseStorageStateOptions<unknown>['storage']
+): Storage => {
+  try {
+    if (storage) return isFunction(storage) ? storage() : storage;
+    return typeof window === 'undefined' ? memoryStorage : window.localStorage;
+  } catch {
+    // 禁用存储时访问 `localStorage` 会抛出 SecurityError
+    return memoryStorage;
+  }
+};
+
+const readRaw = (storage: Storage, key: string) => {
+  const fallback = fallbacks.get(storage);
+  if (fallback?.has(key)) return fallback.get(key)!;
+  try {
+    return storage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const writeRaw = (
+  storage: Storage,
+  key: string,
+  raw: string | null,
+  onError: (error: unknown) => void
+) => {
+  try {
+    if (raw === null) storage.removeItem(key);
+    else storage.setItem(key, raw);
+    fallbacks.get(storage)?.delete(key);
+  } catch (error) {
+    const fallback = fallbacks.get(storage) ?? new Map<string, string | null>();
+    fallback.set(key, raw);
+    fallbacks.set(storage, fallback);
+    onError(error);
+  }
+  notify(storage, key);
+};
+
+/**
+ * 与 `useState` 相同，但值保存在 `Storage` 中，并在使用相同键的组件及其他页面之间同步
+ * @param key
+ * @param initialValue 未存储或存储的值无效时使用
+ * @param options
+ * @returns 值、设置函数以及移除函数
+ * @example const [theme, setTheme] = useStorageState('theme', 'light', { validate: isString });
+ */
+export const useStorageState = <T>(
+  key: string,
+  initialValue: T | (() => T),
+  options: UseStorageStateOptions<T> = {}
+): [value: T, setValue: StorageStateDispatch<T>, remove: () => void] => {
+  const initial = useConstant(() =>
+    isFunction(initialValue) ? initialValue() : initialValue
+  );
+  const optionsRef = useLatestRef(options);
+  const storage = resolveStorage(options.storage);
+
+  const parse = useCallback(
+    (raw: string | null): T => {
+      if (raw === null) return initial;
+      const {
+        serializer = jsonSerializer as StorageSerializer<T>,
+        validate,
+        onError = console.warn,
+      } = optionsRef.current;
+      try {
+        const value = serializer.read(raw);
+        return !validate || validate(value) ? value : initial;
+      } catch (error) {
+        // 损坏的数据视为未存储
+        onError(error);
+        return initial;
+      }
+    },
+    [initial, optionsRef]
+  );
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const onLocalChange = (target: Storage, changedKey: string) => {
+        if (target === storage && changedKey === key) onChange();
+      };
+      const onStorage = (event: StorageEvent) => {
+        if (event.storageArea !== storage) return;
+        if (event.key !== null && event.key !== key) return;
+        // 其他页面写入成功后内存中的值不再有效
+        fallbacks.get(storage)?.delete(key);
+        onChange();
+      };
+      listeners.add(onLocalChange);
+      window.addEventListener('storage', onStorage);
+      return () => {
+        listeners.delete(onLocalChange);
+        window.removeEventListener('storage', onStorage);
+      };
+    },
+    [key, storage]
+  );
+  const raw = useSyncExternalStore(
+    subscribe,
+    () => readRaw(storage, key),
+    () => null
+  );
+  const value = useMemo(() => parse(raw), [parse, raw]);
+
+  const setValue = useCallback<StorageStateDispatch<T>>(
+    (action) => {
+      const {
+        serializer = jsonSerializer as StorageSerializer<T>,
+        onError = console.warn,
+      } = optionsRef.current;
+      const next = isFunction(action)
+        ? action(parse(readRaw(storage, key)))
+        : action;
+      let serialized: string;
+      try {
+        serialized = serializer.write(next);
+      } catch (error) {
+        onError(error);
+        return;
+      }
+      writeRaw(storage, key, serialized, onError);
+    },
+    [key, optionsRef, parse, storage]
+  );
+  const remove = useCallback(() => {
+    writeRaw(storage, key, null, optionsRef.current.onError ?? console.warn);
+  }, [key, optionsRef, storage]);
+
+  return [value, setValue, remove];
+};
+
+const getLocalStorage = () => window.localStorage;
+const getSessionStorage = () => window.sessionStorage;
+
+/**
+ * 使用 `localStorage` 的 `useStorageState`
+ * @param key
+ * @param initialValue
+ * @param options
+ * @example const [collapsed, setCollapsed] = useLocalStorage('sidebar-collapsed', false);
+ */
+export const useLocalStorage = <T>(
+  key: string,
+  initialValue: T | (() => T),
+  options: Omit<UseStorageStateOptions<T>, 'storage'> = {}
+) =>
+  useStorageState(key, initialValue, { ...options, storage: getLocalStorage });
+
+/**
+ * 使用 `sessionStorage` 的 `useStorageState`
+ * @param key
+ * @param initialValue
+ * @param options
+ * @example const [draft, setDraft] = useSessionStorage('draft', '');
+ */
+export const useSessionStorage = <T>(
+  key: string,
+  initialValue: T | (() => T),
+  options: Omit<UseStorageStateOptions<T>, 'storage'> = {}
+) =>
+  useStorageState(key, initialValue, {
+    ...options,
+    storage: getSessionStorage,
+  });
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect, vi, beforeEach } = import.meta.vitest;
+
+  describe('Tests', async () => {
+    const { renderHook, act } = await import('@testing-library/react');
+    const { renderToString } = await import('react-dom/server');
+    const { createElement } = await import('react');
+    const { isNumber } = await import('./utilities.ts');
+    beforeEach(() => {
+      localStorage.clear();
+      sessionStorage.clear();
+    });
+    it('reads and writes the storage', () => {
+      localStorage.setItem('count', '1');
+      const { result } = renderHook(() => useLocalStorage('count', 0));
+      expect(result.current[0]).toBe(1);
+      act(() => result.current[1]((prev) => prev + 1));
+      expect(result.current[0]).toBe(2);
+      expect(localStorage.getItem('count')).toBe('2');
+      act(() => result.current[2]());
+      expect(result.current[0]).toBe(0);
+      expect(localStorage.getItem('count')).toBeNull();
+    });
+    it('syncs instances in the same page and other pages', () => {
+      const first = renderHook(() => useSessionStorage('name', 'a'));
+      const second = renderHook(() => useSessionStorage('name', 'a'));
+      act(() => first.result.current[1]('b'));
+      expect(second.result.current[0]).toBe('b');
+      act(() => {
+        sessionStorage.setItem('name', '"c"');
+        window.dispatchEvent(
+          new StorageEvent('storage', {
+            key: 'name',
+            storageArea: sessionStorage,
+          })
+        );
+      });
+      expect(first.result.current[0]).toBe('c');
+      expect(second.result.current[0]).toBe('c');
+    });
+    it('tolerates corrupted and invalid values', () => {
+      const onError = vi.fn();
+      localStorage.setItem('a', '{');
+      localStorage.setItem('b', '"text"');
+      const { result } = renderHook(() => ({
+        a: useLocalStorage('a', 1, { onError })[0],
+        b: useLocalStorage('b', 2, { validate: isNumber })[0],
+      }));
+      expect(result.current).toEqual({ a: 1, b: 2 });
+      expect(onError).toHaveBeenCalledWith(expect.any(SyntaxError));
+    });
+    it('keeps the value in memory when writing fails', () => {
+      const onError = vi.fn();
+      const storage = {
+        getItem: vi.fn(() => null),
+        setItem: vi.fn(() => {
+          throw new DOMException('full', 'QuotaExceededError');
+        }),
+        removeItem: vi.fn(),
+      } as unknown as Storage;
+      const first = renderHook(() =>
+        useStorageState('big', '', { storage, onError })
+      );
+      const second = renderHook(() =>
+        useStorageState('big', '', { storage, onError })
+      );
+      act(() => first.result.current[1]('value'));
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(first.result.current[0]).toBe('value');
+      expect(second.result.current[0]).toBe('value');
+      act(() => first.result.current[2]());
+      expect(second.result.current[0]).toBe('');
+    });
+    it('keeps the value in memory when the storage is unavailable', () => {
+      const storage = () => {
+        throw new DOMException('disabled', 'SecurityError');
+      };
+      const first = renderHook(() => useStorageState('toggle', 0, { storage }));
+      const second = renderHook(() =>
+        useStorageState('toggle', 0, { storage })
+      );
+      act(() => first.result.current[1](5));
+      expect(first.result.current[0]).toBe(5);
+      expect(second.result.current[0]).toBe(5);
+      act(() => second.result.current[1]((prev) => prev + 1));
+      expect(first.result.current[0]).toBe(6);
+      act(() => first.result.current[2]());
+      expect(second.result.current[0]).toBe(0);
+    });
+    it('custom serializer', () => {
+      const { result } = renderHook(() =>
+        useLocalStorage('date', () => new Date(0), {
+          serializer: {
+            read: (raw) => new Date(Number(raw)),
+            write: (value) => String(value.getTime()),
+          },
+        })
+      );
+      act(() => result.current[1](new Date(1000)));
+      expect(localStorage.getItem('date')).toBe('1000');
+      expect(result.current[0].getTime()).toBe(1000);
+    });
+    it('renders the initial value on the server', () => {
+      localStorage.setItem('ssr', '"stored"');
+      const Component = () =>
+        createElement('p', null, useLocalStorage('ssr', 'initial')[0]);
+      expect(renderToString(createElement(Component))).toBe('<p>initial</p>');
+    });
+  });
+}
@@ -0,0 +1,111 @@
+import { useCallback, useRef, useSyncExternalStore } from 'react';
+import { Store } from './store.ts';
+import { isEquals, isFunction } from './utilities.ts';
+
+/**
+ * Compare selections, `true` means `isEquals`, default `Object.is`
+ */
+export type SelectionEquals<S> = boolean | ((prev: S, next: S) => boolean);
+
+/**
+ * 订阅外部状态容器，返回选择的状态
+ * @param store
+ * @param selector 默认返回整个状态
+ * @param equals 选择的结果相等时返回上一次的结果，避免重新渲染；为 `true` 时使用 `isEquals`
+ * @description 服务端渲染及水合时使用 `getInitialState` 作为快照
+ * @example const count = useStore(counter, (state) => state.count);
+ * @example const { items } = useStore(cart, (state) => ({ items: state.items }), true);
+ */
+export function useStore<T>(store: Store<T>): T;
+export function useStore<T, S>(
+  store: Store<T>,
+  selector: (state: T) => S,
+  equals?: SelectionEquals<S>
+): S;
+export function useStore<T, S>(
+  store: Store<T>,
+  selector: (state: T) => S = (state) => state as unknown as S,
+  equals: SelectionEquals<S> = false
+): S {
+  // 缓存上一次的选择结果，状态未变化时 `getSnapshot` 必须返回相同的值
+  const cache = useRef<{ state: T; selector: typeof selector; selection: S }>();
+  const select = (state: T) => {
+    const prev = cache.current;
+    if (prev && Object.is(prev.state, state) && prev.selector === selector)
+      return prev.selection;
+    const selection = selector(state);
+    const unchanged =
+      prev &&
+      (isFunction(equals)
+        ? equals(prev.selection, selection)
+        : equals
+        ? isEquals(prev.selection, selection)
+        : Object.is(prev.selection, selection));
+    cache.current = {
+      state,
+      selector,
+      selection: unchanged ? prev.selection : selection,
+    };
+    return cache.current.selection;
+  };
+  const subscribe = useCallback(
+    (onChange: () => void) => store.subscribe(onChange),
+    [store]
+  );
+  return useSyncExternalStore(
+    subscribe,
+    () => select(store.getState()),
+    () => select(store.getInitialState())
+  );
+}
+
+// mod tests
+if (import.meta.vitest) {
+  const { describe, it, expect, vi } = import.meta.vitest;
+
+  describe('Tests', async () => {
+    const { renderHook, act } = await import('@testing-library/react');
+    const { renderToString } = await import('react-dom/server');
+    const { createElement } = await import('react');
+    const { createStore } = await import('./store.ts');
+    it('useStore', () => {
+      const store = createStore({ count: 0, name: 'a' });
+      const { result } = renderHook(() => useStore(store));
+      act(() => store.setState((prev) => ({ ...prev, count: 1 })));
+      expect(result.current).toEqual({ count: 1, name: 'a' });
+    });
+    it('rerenders only when the selection changes', () => {
+      const store = createStore({ count: 0, name: 'a' });
+      const render = vi.fn();
+      const { result } = renderHook(() => {
+        render();
+        return useStore(store, (state) => state.count);
+      });
+      act(() => store.setState((prev) => ({ ...prev, name: 'b' })));
+      expect(render).toHaveBeenCalledTimes(1);
+      act(() => store.setState((prev) => ({ ...prev, count: 2 })));
+      expect(result.current).toBe(2);
+      expect(render).toHaveBeenCalledTimes(2);
+    });
+    it('structural equality', () => {
+      const store = createStore({ items: [1], name: 'a' });
+      const render = vi.fn();
+      const { result } = renderHook(() => {
+        render();
+        return useStore(store, (state) => ({ items: state.items }), true);
+      });
+      const selection = result.current;
+      act(() => store.setState({ items: [1], name: 'b' }));
+      expect(result.current).toBe(selection);
+      expect(render).toHaveBeenCalledTimes(1);
+      act(() => store.setState((prev) => ({ ...prev, items: [1, 2] })));
+      expect(result.current).toEqual({ items: [1, 2] });
+    });
+    it('uses the initial state on the server', () => {
+      const store = createStore('initial');
+      store.setState('client');
+      const Component = () => createElement('p', null, useStore(store));
+      expect(renderToString(createElement(Component))).toBe('<p>initial</p>');
+    });
+  });
+}
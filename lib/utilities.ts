@@ -1,28 +1,222 @@
 // Validation and type checking
 
 /**
- * Equality check
+ * Options of `isEquals`
+ */
+export interface IsEqualsOptions {
+    /**
+     * Strict mode, default `false`
+     * @description 严格模式下使用 `Object.is` 比较原始值（区分 `+0` 与 `-0`），要求原型一致，并且会比较可枚举的 Symbol 键
+     */
+    strict?: boolean;
+    /**
+     * Custom comparer
+     * @description 返回 `undefined` 时使用默认的比较逻辑，`equals` 可用于递归比较子值
+     */
+    compare?: (
+        x: unknown,
+        y: unknown,
+        equals: (x: unknown, y: unknown) => boolean
+    ) => boolean | undefined;
+}
+
+const toStringTag = (obj: object): string =>
+    Object.prototype.toString.call(obj);
+
+/**
+ * Structural equality check
  * @param x
  * @param y
+ * @param options
+ * @description 支持 Map、Set、Date、RegExp、ArrayBuffer、TypedArray、包装对象以及循环引用
+ * @example isEquals({ a: [1, 2] }, { a: [1, 2] }) // true
+ * @example isEquals(new Map([[{ a: 1 }, 1]]), new Map([[{ a: 1 }, 1]])) // true
+ * @example isEquals(0, -0, { strict: true }) // false
  */
-export const isEquals = (x: unknown, y: unknown) => {
-    if (x === y) return true;
-    // 防止NaN等问题
-    if (typeof x !== 'object' || typeof y !== 'object') {
-        return typeof x === typeof y ? x === y : false;
-    }
-    if (x === null || y === null) return false;
-    const xKeys = Object.keys(x),
-        yKeys = Object.keys(y);
-    if (xKeys.length !== yKeys.length) return false;
-    for (const key of xKeys) {
+export const isEquals = (
+    x: unknown,
+    y: unknown,
+    options: IsEqualsOptions = {}
+): boolean => {
+    const { strict = false, compare } = options;
+    // SameValueZero or SameValue
+    const equalsPrimitive = strict
+        ? Object.is
+        : (a: unknown, b: unknown) => a === b || (a !== a && b !== b);
+    // 正在比较中的值对，用于处理循环引用
+    const stack = new Map<object, Set<object>>();
+    const keysOf = (obj: object): PropertyKey[] =>
+        strict
+            ? Reflect.ownKeys(obj).filter((key) =>
+                Object.prototype.propertyIsEnumerable.call(obj, key)
+            )
+            : Object.keys(obj);
+
+    const equalsKeys = (x: object, y: object) => {
+        const xKeys = keysOf(x),
+            yKeys = keysOf(y);
+        if (xKeys.length !== yKeys.length) return false;
+        for (const key of xKeys) {
+            if (
+                !Reflect.has(y, key) ||
+                !equals(Reflect.get(x, key), Reflect.get(y, key))
+            )
+                return false;
+        }
+        return true;
+    };
+    const equalsMap = (x: Map<unknown, unknown>, y: Map<unknown, unknown>) => {
+        if (x.size !== y.size) return false;
+        const matched = new Set<unknown>();
+        outer: for (const [key, value] of x) {
+            if (y.has(key) && !matched.has(key)) {
+                if (!equals(value, y.get(key))) return false;
+                matched.add(key);
+                continue;
+            }
+            if (typeof key !== 'object' || key === null) return false;
+            // 对象键需要逐个进行结构比较
+            for (const [otherKey, otherValue] of y) {
+                if (
+                    matched.has(otherKey) ||
+                    typeof otherKey !== 'object' ||
+                    x.has(otherKey)
+                )
+                    continue;
+                if (equals(key, otherKey) && equals(value, otherValue)) {
+                    matched.add(otherKey);
+                    continue outer;
+                }
+            }
+            return false;
+        }
+        return true;
+    };
+    const equalsSet = (x: Set<unknown>, y: Set<unknown>) => {
+        if (x.size !== y.size) return false;
+        const matched = new Set<unknown>();
+        outer: for (const value of x) {
+            if (y.has(value) && !matched.has(value)) {
+                matched.add(value);
+                continue;
+            }
+            if (typeof value !== 'object' || value === null) return false;
+            for (const other of y) {
+                if (
+                    matched.has(other) ||
+                    typeof other !== 'object' ||
+                    x.has(other)
+                )
+                    continue;
+                if (equals(value, other)) {
+                    matched.add(other);
+                    continue outer;
+                }
+            }
+            return false;
+        }
+        return true;
+    };
+    const equalsView = (x: ArrayLike<unknown>, y: ArrayLike<unknown>) => {
+        if (x.length !== y.length) return false;
+        for (let i = 0; i < x.length; i++) {
+            if (!equalsPrimitive(x[i], y[i])) return false;
+        }
+        return true;
+    };
+    const equalsObject = (x: object, y: object): boolean => {
+        const tag = toStringTag(x);
+        if (tag !== toStringTag(y)) return false;
+        if (strict && Reflect.getPrototypeOf(x) !== Reflect.getPrototypeOf(y))
+            return false;
+        switch (tag) {
+            case '[object Number]':
+            case '[object String]':
+            case '[object Boolean]':
+            case '[object BigInt]':
+            case '[object Symbol]':
+                return equalsPrimitive(x.valueOf(), y.valueOf());
+            case '[object Date]':
+                return equalsPrimitive(
+                    (x as Date).getTime(),
+                    (y as Date).getTime()
+                );
+            case '[object RegExp]':
+                return (
+                    (x as RegExp).source === (y as RegExp).source &&
+                    (x as RegExp).flags === (y as RegExp).flags
+                );
+            case '[object Map]':
+                return equalsMap(
+                    x as Map<unknown, unknown>,
+                    y as Map<unknown, unknown>
+                );
+            case '[object Set]':
+                return equalsSet(x as Set<unknown>, y as Set<unknown>);
+            case '[object ArrayBuffer]':
+                return equalsView(
+                    new Uint8Array(x as ArrayBuffer),
+                    new Uint8Array(y as ArrayBuffer)
+                );
+            case '[object DataView]':
+                return equalsView(
+                    new Uint8Array(
+                        (x as DataView).buffer,
+                        (x as DataView).byteOffset,
+                        (x as DataView).byteLength
+                    ),
+                    new Uint8Array(
+                        (y as DataView).buffer,
+                        (y as DataView).byteOffset,
+                        (y as DataView).byteLength
+                    )
+                );
+            case '[object WeakMap]':
+            case '[object WeakSet]':
+            case '[object Promise]':
+                // 无法遍历，只比较引用
+                return false;
+        }
+        if (ArrayBuffer.isView(x)) {
+            return equalsView(
+                x as unknown as ArrayLike<unknown>,
+                y as unknown as ArrayLike<unknown>
+            );
+        }
+        if (Array.isArray(x) && x.length !== (y as unknown[]).length)
+            return false;
         if (
-            !Reflect.has(y, key) ||
-            !isEquals(Reflect.get(x, key), Reflect.get(y, key))
+            x instanceof Error &&
+            (x.name !== (y as Error).name || x.message !== (y as Error).message)
         )
             return false;
-    }
-    return true;
+        return equalsKeys(x, y);
+    };
+    const equals = (x: unknown, y: unknown): boolean => {
+        if (compare) {
+            const result = compare(x, y, equals);
+            if (result !== undefined) return result;
+        }
+        if (equalsPrimitive(x, y)) return true;
+        if (
+            typeof x !== 'object' ||
+            typeof y !== 'object' ||
+            x === null ||
+            y === null
+        )
+            return false;
+        let pairs = stack.get(x);
+        // 已在比较中，视为相等
+        if (pairs?.has(y)) return true;
+        if (!pairs) stack.set(x, (pairs = new Set()));
+        pairs.add(y);
+        try {
+            return equalsObject(x, y);
+        } finally {
+            pairs.delete(y);
+        }
+    };
+    return equals(x, y);
 };
 
 /**
@@ -107,6 +301,13 @@ export const isEmpty = (v: Array<unknown> | object | string): boolean => {
     }
 };
 
+/**
+ * Check if value is a boolean
+ * @param bool
+ */
+export const isBoolean = (bool: unknown): bool is boolean =>
+    typeof bool === 'boolean';
+
 /**
  * Check if value is a symbol
  * @param symbol
@@ -127,47 +328,416 @@ export const isDate = (date: unknown): date is Date => date instanceof Date;
 export const isNumber = (num: unknown): num is number =>
     typeof num === 'number' && !Number.isNaN(num);
 
+/**
+ * Options of `isURL`
+ */
+export interface IsURLOptions {
+    /**
+     * Allowed protocols without `:`, default `['http', 'https', 'ftp', 'ws', 'wss', 'mailto', 'tel']`
+     */
+    protocols?: string[];
+    /**
+     * Allow protocol-relative URLs like `//example.com`, default `true`
+     */
+    allowProtocolRelative?: boolean;
+    /**
+     * Allow relative URLs like `/path?q=1`, default `false`
+     */
+    allowRelative?: boolean;
+    /**
+     * Require a top-level domain in the hostname, default `false`
+     */
+    requireTLD?: boolean;
+}
+const DEFAULT_URL_PROTOCOLS = [
+    'http',
+    'https',
+    'ftp',
+    'ws',
+    'wss',
+    'mailto',
+    'tel',
+];
+// 需要 `//` 与主机名的协议
+const HIERARCHICAL_PROTOCOLS = ['http', 'https', 'ftp', 'ws', 'wss'];
+const URL_PLACEHOLDER_BASE = 'http://placeholder.invalid';
 /**
  * Check if value is a URL
  * @param url
+ * @param options
+ * @example isURL('https://www.google.com') // true
+ * @example isURL('httpfoo') // false
+ * @example isURL('/path', { allowRelative: true }) // true
  */
-export const isURL = (url: string) =>
-    ['http', '//'].some((str) => url.startsWith(str));
+export const isURL = (url: string, options: IsURLOptions = {}): boolean => {
+    const {
+        protocols = DEFAULT_URL_PROTOCOLS,
+        allowProtocolRelative = true,
+        allowRelative = false,
+        requireTLD = false,
+    } = options;
+    if (!isNonEmptyString(url) || /\s/.test(url)) return false;
+    const scheme = /^([a-z][a-z\d+.-]*):/i.exec(url)?.[1].toLowerCase();
+    let parsed: URL;
+    try {
+        parsed = new URL(url, scheme ? void 0 : URL_PLACEHOLDER_BASE);
+    } catch {
+        return false;
+    }
+    if (!scheme) {
+        if (url.startsWith('//')) {
+            if (!allowProtocolRelative || !parsed.hostname) return false;
+        } else {
+            // 相对地址没有主机名可供校验
+            return allowRelative;
+        }
+    } else {
+        if (!protocols.includes(scheme)) return false;
+        if (HIERARCHICAL_PROTOCOLS.includes(scheme)) {
+            if (!/^[a-z][a-z\d+.-]*:\/\//i.test(url) || !parsed.hostname)
+                return false;
+        } else if (!parsed.pathname && !parsed.hostname) {
+            return false;
+        }
+    }
+    if (requireTLD && parsed.hostname) {
+        return /\.(?:[a-z]{2,}|xn--[a-z\d-]+)$/i.test(parsed.hostname);
+    }
+    return true;
+};
 
 // object manipulation
 
+type PathLeaf =
+    | string
+    | number
+    | boolean
+    | bigint
+    | symbol
+    | null
+    | undefined
+    | Date
+    | RegExp
+    | Function;
+// 限制递归深度，避免递归类型导致无限展开
+type PathDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+type PathJoin<K extends string, V, D extends number> =
+    | K
+    | `${K}.${PathKeys<V, PathDepth[D]>}`
+    | `${K}${PathIndexes<V, PathDepth[D]>}`;
+// 数组元素的 `[0]` 形式
+type PathIndexes<T, D extends number> = [D] extends [never]
+    ? never
+    : T extends readonly unknown[]
+        ? number extends T['length']
+            ? PathJoin<`[${number}]`, T[number], D>
+            : {
+                [K in keyof T & `${number}`]: PathJoin<`[${K}]`, T[K], D>;
+            }[keyof T & `${number}`]
+        : never;
+type PathKeys<T, D extends number> = [D] extends [never]
+    ? never
+    : T extends PathLeaf
+        ? never
+        : T extends readonly unknown[]
+            ? number extends T['length']
+                ? PathJoin<`${number}`, T[number], D>
+                : {
+                    [K in keyof T & `${number}`]: PathJoin<K, T[K], D>;
+                }[keyof T & `${number}`]
+            : {
+                [K in keyof T & (string | number)]-?: PathJoin<`${K}`, T[K], D>;
+            }[keyof T & (string | number)];
+type PathProp<T, K extends string> = T extends null | undefined
+    ? undefined
+    : T extends readonly unknown[]
+        ? K extends keyof T
+            ? T[K]
+            : K extends `${number}`
+                ? T[number]
+                : undefined
+        : K extends keyof T
+            ? T[K]
+            : K extends `${infer N extends number}`
+                ? N extends keyof T
+                    ? T[N]
+                    : undefined
+                : undefined;
+// 将 `a[0].b` 转换为 `a.0.b`
+type DotPath<P extends string> = P extends `${infer H}[${infer I}]${infer R}`
+    ? DotPath<`${H}.${I}${R}`>
+    : P extends `.${infer R}`
+        ? R
+        : P;
+/**
+ * Dot or bracket separated key paths of an object
+ * @example Path<{ a: { b: number[] } }> // 'a' | 'a.b' | `a.b.${number}` | `a.b[${number}]`
+ */
+export type Path<T> = unknown extends T ? string : PathKeys<T, 10>;
+type DotPathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+    ? DotPathValue<PathProp<T, K>, Rest>
+    : PathProp<T, P>;
+/**
+ * Type of the value at a key path
+ * @example PathValue<{ a: { b: number[] } }, 'a.b[0]'> // number
+ */
+export type PathValue<T, P extends string> = DotPathValue<T, DotPath<P>>;
+type PathHead<P extends string> = P extends `${infer H}.${string}` ? H : P;
+type PathTail<P extends string, H extends string> = P extends `${H}.${infer R}`
+    ? R
+    : never;
+type PickDotPath<T, P extends string> = T extends object
+    ? {
+        [K in keyof T as K extends string | number
+            ? `${K}` extends PathHead<P>
+                ? K
+                : never
+            : never]: `${K & (string | number)}` extends P
+            ? T[K]
+            : PickDotPath<T[K], PathTail<P, `${K & (string | number)}`>>;
+    }
+    : T;
+/**
+ * Pick by key paths
+ */
+export type PickPath<T, P extends string> = PickDotPath<T, DotPath<P>>;
+type OmitDotPath<T, P extends string> = T extends object
+    ? {
+        [K in keyof T as K extends string | number
+            ? `${K}` extends P
+                ? never
+                : K
+            : K]: K extends string | number
+            ? `${K}` extends PathHead<P>
+                ? OmitDotPath<T[K], PathTail<P, `${K}`>>
+                : T[K]
+            : T[K];
+    }
+    : T;
+/**
+ * Omit by key paths
+ */
+export type OmitPath<T, P extends string> = OmitDotPath<T, DotPath<P>>;
+
+const hasOwn = (obj: object, key: PropertyKey) =>
+    Object.prototype.hasOwnProperty.call(obj, key);
+// 定义为自有属性，避免 `__proto__` 等键触发原型上的 setter
+const defineValue = (obj: object, key: PropertyKey, value: unknown) =>
+    Object.defineProperty(obj, key, {
+        value,
+        enumerable: true,
+        writable: true,
+        configurable: true,
+    });
+const isObjectLike = (value: unknown): value is Record<PropertyKey, unknown> =>
+    value !== null && typeof value === 'object';
+const isIndexKey = (key: PropertyKey) =>
+    typeof key === 'number' ||
+    (isString(key) && /^(?:0|[1-9]\d*)$/.test(key));
+/**
+ * 将 `a.b[0].c` 形式的路径拆分为键数组
+ */
+const toPath = (path: string | readonly PropertyKey[]): PropertyKey[] =>
+    isString(path) ? path.split(/[.[\]]/).filter((key) => key !== '') : [...path];
+/**
+ * 浅拷贝对象或数组，并保留原型
+ */
+const shallowCopy = (
+    value: unknown,
+    key: PropertyKey
+): Record<PropertyKey, unknown> => {
+    if (Array.isArray(value)) return value.slice() as never;
+    if (isObjectLike(value)) {
+        const copy = Object.create(Reflect.getPrototypeOf(value));
+        for (const key of Reflect.ownKeys(value)) {
+            if (Object.prototype.propertyIsEnumerable.call(value, key))
+                defineValue(copy, key, value[key]);
+        }
+        return copy;
+    }
+    // 根据下一级的键创建容器
+    return (isIndexKey(key) ? [] : {}) as never;
+};
+
+/**
+ * Get the value at a key path
+ * @param target
+ * @param path dot/bracket string path or key array
+ * @param defaultValue returned when the resolved value is `undefined`
+ * @example get({ a: [{ b: 1 }] }, 'a.0.b') // 1
+ * @example get({ a: [{ b: 1 }] }, 'a[0].c', 2) // 2
+ */
+export function get<T, P extends Path<T>>(target: T, path: P): PathValue<T, P>;
+export function get<T, P extends Path<T>, D>(
+    target: T,
+    path: P,
+    defaultValue: D
+): Exclude<PathValue<T, P>, undefined> | D;
+export function get(
+    target: unknown,
+    path: readonly PropertyKey[],
+    defaultValue?: unknown
+): unknown;
+export function get(
+    target: unknown,
+    path: string | readonly PropertyKey[],
+    defaultValue?: unknown
+): unknown {
+    let current = target;
+    for (const key of toPath(path)) {
+        if (!isDef(current)) return defaultValue;
+        current = Reflect.get(Object(current), key);
+    }
+    return current === void 0 ? defaultValue : current;
+}
+
+/**
+ * Check if a key path exists, only own properties are checked
+ * @param target
+ * @param path dot/bracket string path or key array
+ * @example has({ a: { b: undefined } }, 'a.b') // true
+ */
+export const has = (
+    target: unknown,
+    path: string | readonly PropertyKey[]
+): boolean => {
+    const keys = toPath(path);
+    let current = target;
+    for (const key of keys) {
+        if (!isDef(current) || !hasOwn(Object(current), key)) return false;
+        current = Reflect.get(Object(current), key);
+    }
+    return keys.length > 0;
+};
+
+/**
+ * Set the value at a key path without mutating the target
+ * @param target
+ * @param path dot/bracket string path or key array
+ * @param value
+ * @description 只拷贝路径上的对象，其余部分保持引用不变；缺失的层级会根据键创建数组或对象
+ * @example set({ a: { b: 1 }, c: {} }, 'a.b', 2) // { a: { b: 2 }, c: {} }
+ */
+export function set<T, P extends Path<T>>(
+    target: T,
+    path: P,
+    value: PathValue<T, P>
+): T;
+export function set<T>(
+    target: T,
+    path: readonly PropertyKey[],
+    value: unknown
+): T;
+export function set(
+    target: unknown,
+    path: string | readonly PropertyKey[],
+    value: unknown
+): unknown {
+    const keys = toPath(path);
+    const setIn = (current: unknown, index: number): unknown => {
+        if (index === keys.length) return value;
+        const key = keys[index];
+        // 忽略继承的属性，例如 `__proto__`
+        const own = isObjectLike(current) && hasOwn(current, key);
+        const prev = own ? current[key] : void 0;
+        const next = setIn(prev, index + 1);
+        // 值未变化时复用原对象
+        if (own && Object.is(prev, next)) return current;
+        const copy = shallowCopy(current, key);
+        defineValue(copy, key, next);
+        return copy;
+    };
+    return setIn(target, 0);
+}
+
+/**
+ * Remove the value at a key path without mutating the target
+ * @param target
+ * @param path dot/bracket string path or key array
+ * @description 数组元素会被移除而不是留下空位，路径不存在时返回原对象
+ * @example unset({ a: { b: 1, c: 2 } }, 'a.b') // { a: { c: 2 } }
+ * @example unset({ a: [1, 2, 3] }, 'a.1') // { a: [1, 3] }
+ */
+export function unset<T, P extends Path<T>>(
+    target: T,
+    path: P | readonly PropertyKey[]
+): T {
+    const keys = toPath(path);
+    const unsetIn = (current: unknown, index: number): unknown => {
+        const key = keys[index];
+        if (!isObjectLike(current) || !hasOwn(current, key)) return current;
+        if (index === keys.length - 1) {
+            const copy = shallowCopy(current, key);
+            if (Array.isArray(copy) && isIndexKey(key)) copy.splice(Number(key), 1);
+            else delete copy[key];
+            return copy;
+        }
+        const prev = current[key];
+        const next = unsetIn(prev, index + 1);
+        if (next === prev) return current;
+        const copy = shallowCopy(current, key);
+        defineValue(copy, key, next);
+        return copy;
+    };
+    return (keys.length === 0 ? target : unsetIn(target, 0)) as T;
+}
+
+/**
+ * 字符串键不存在且包含 `.` 或 `[` 时视为路径
+ */
+const isPathKey = (target: object, key: PropertyKey): key is string =>
+    isString(key) && /[.[]/.test(key) && !Reflect.has(target, key);
+
 /**
  * Pick specific fields from an object
  * @param target target object
- * @param keys object fields
+ * @param keys object fields or key paths
  * @example pick({a: 1, b: 2, c: 3}, ['a', 'b']) // {a: 1, b: 2}
+ * @example pick({a: {b: 1, c: 2}, d: 3}, ['a.b']) // {a: {b: 1}}
  */
-export const pick = <O extends object, T extends keyof O>(
+export function pick<O extends object, T extends keyof O>(
     target: O,
     keys: T[]
-): Pick<O, T> => {
-    return keys.reduce((value, key) => {
-        if (Reflect.has(target, key)) value[key] = Reflect.get(target, key, target);
+): Pick<O, T>;
+export function pick<O extends object, P extends Path<O>>(
+    target: O,
+    paths: P[]
+): PickPath<O, P>;
+export function pick(target: object, keys: PropertyKey[]): object {
+    return keys.reduce<object>((value, key) => {
+        if (isPathKey(target, key)) {
+            const path = toPath(key);
+            return has(target, path) ? set(value, path, get(target, path)) : value;
+        }
+        if (Reflect.has(target, key))
+            defineValue(value, key, Reflect.get(target, key, target));
         return value;
-    }, {} as Pick<O, T>);
-};
+    }, {});
+}
 /**
  * Omit specific fields from an object
  * @param target target object
- * @param keys object fields
+ * @param keys object fields or key paths
  * @example omit({ a: 1, b: 2, c: 3 }, ['b', 'c']) // { a: 1 }
+ * @example omit({ a: { b: 1, c: 2 }, d: 3 }, ['a.b']) // { a: { c: 2 }, d: 3 }
  */
-export const omit = <O extends object, T extends keyof O>(
+export function omit<O extends object, T extends keyof O>(
     target: O,
     keys: T[]
-): Omit<O, T> => {
-    return pick(
+): Omit<O, T>;
+export function omit<O extends object, P extends Path<O>>(
+    target: O,
+    paths: P[]
+): OmitPath<O, P>;
+export function omit(target: object, keys: PropertyKey[]): object {
+    const picked = pick(
         target,
-        (Reflect.ownKeys(target) as Array<keyof O>).filter(
-            (key) => !keys.includes(key as T)
-        ) as Array<keyof O>
+        Reflect.ownKeys(target).filter((key) => !keys.includes(key)) as never[]
     );
-};
+    return keys
+        .filter((key): key is string => isPathKey(target, key))
+        .reduce<object>((value, path) => unset(value, toPath(path)), picked);
+}
 
 /**
  * Get the type name of an object
@@ -181,6 +751,459 @@ export const objectType = (obj: object) => {
 };
 
 
+/**
+ * Options of `deepClone`
+ */
+export interface DeepCloneOptions {
+    /**
+     * Keep the prototype of class instances, default `false`
+     * @description 为 `false` 时与 `structuredClone` 一致，类实例会被克隆为普通对象
+     */
+    keepPrototype?: boolean;
+}
+/**
+ * Deep clone a value
+ * @param value
+ * @param options
+ * @description 支持 Map、Set、Date、RegExp、ArrayBuffer、TypedArray、包装对象以及循环引用，函数保持引用
+ * @example deepClone({ a: new Map([[1, { b: 2 }]]) })
+ */
+export const deepClone = <T>(value: T, options: DeepCloneOptions = {}): T => {
+    const { keepPrototype = false } = options;
+    const seen = new Map<object, unknown>();
+    const cloneKeys = (source: object, target: object) => {
+        for (const key of Reflect.ownKeys(source)) {
+            if (!Object.prototype.propertyIsEnumerable.call(source, key)) continue;
+            defineValue(target, key, clone(Reflect.get(source, key)));
+        }
+        return target;
+    };
+    const cloneObject = (source: object): object => {
+        switch (toStringTag(source)) {
+            case '[object Number]':
+            case '[object String]':
+            case '[object Boolean]':
+            case '[object BigInt]':
+            case '[object Symbol]':
+                return Object(source.valueOf());
+            case '[object Date]':
+                return new Date((source as Date).getTime());
+            case '[object RegExp]': {
+                const regexp = new RegExp(
+                    (source as RegExp).source,
+                    (source as RegExp).flags
+                );
+                regexp.lastIndex = (source as RegExp).lastIndex;
+                return regexp;
+            }
+            case '[object Map]': {
+                const map = new Map();
+                seen.set(source, map);
+                (source as Map<unknown, unknown>).forEach((value, key) =>
+                    map.set(clone(key), clone(value))
+                );
+                return map;
+            }
+            case '[object Set]': {
+                const set = new Set();
+                seen.set(source, set);
+                (source as Set<unknown>).forEach((value) => set.add(clone(value)));
+                return set;
+            }
+            case '[object ArrayBuffer]':
+                return (source as ArrayBuffer).slice(0);
+            case '[object DataView]': {
+                const view = source as DataView;
+                return new DataView(
+                    view.buffer.slice(
+                        view.byteOffset,
+                        view.byteOffset + view.byteLength
+                    )
+                );
+            }
+            case '[object WeakMap]':
+            case '[object WeakSet]':
+            case '[object Promise]':
+                // 无法遍历，保持引用
+                return source;
+        }
+        if (ArrayBuffer.isView(source)) {
+            return (source as unknown as Uint8Array).slice();
+        }
+        if (Array.isArray(source)) {
+            const array: unknown[] = new Array(source.length);
+            seen.set(source, array);
+            return cloneKeys(source, array);
+        }
+        if (source instanceof Error) {
+            const error = new Error(source.message);
+            Reflect.setPrototypeOf(error, Reflect.getPrototypeOf(source));
+            Object.defineProperty(error, 'stack', {
+                value: source.stack,
+                writable: true,
+                configurable: true,
+            });
+            seen.set(source, error);
+            return cloneKeys(source, error);
+        }
+        const proto = Reflect.getPrototypeOf(source);
+        const object = keepPrototype || proto === null ? Object.create(proto) : {};
+        seen.set(source, object);
+        return cloneKeys(source, object);
+    };
+    const clone = (value: unknown): unknown => {
+        if (typeof value !== 'object' || value === null) return value;
+        if (seen.has(value)) return seen.get(value);
+        const cloned = cloneObject(value);
+        seen.set(value, cloned);
+        // 保留内置类型子类的原型
+        if (
+            keepPrototype &&
+            cloned !== value &&
+            Reflect.getPrototypeOf(cloned) !== Reflect.getPrototypeOf(value)
+        )
+            Reflect.setPrototypeOf(cloned, Reflect.getPrototypeOf(value));
+        return cloned;
+    };
+    return clone(value) as T;
+};
+
+type MergeLeaf =
+    | PathLeaf
+    | Map<unknown, unknown>
+    | Set<unknown>
+    | ArrayBuffer
+    | ArrayBufferView
+    | readonly unknown[];
+type MergeArrays = 'replace' | 'concat' | 'key';
+type MergeValue<T, S, A extends MergeArrays> =
+    | DeepMerge<T, Exclude<S, undefined>, A>
+    // 值为 `undefined` 时会被跳过
+    | (undefined extends S ? T : never);
+/**
+ * Result type of `deepMerge`
+ */
+export type DeepMerge<T, S, A extends MergeArrays = 'replace'> = [S] extends [
+    readonly unknown[]
+]
+    ? [T] extends [readonly unknown[]]
+        ? A extends 'concat'
+            ? Array<T[number] | S[number]>
+            : A extends 'key'
+                ? Array<T[number] | S[number] | DeepMerge<T[number], S[number], A>>
+                : S
+        : S
+    : [T] extends [MergeLeaf]
+        ? S
+        : [S] extends [MergeLeaf]
+            ? S
+            : [T, S] extends [object, object]
+                ? {
+                    [K in keyof T | keyof S]: K extends keyof S
+                        ? K extends keyof T
+                            ? MergeValue<T[K], S[K], A>
+                            : S[K]
+                        : K extends keyof T
+                            ? T[K]
+                            : never;
+                }
+                : S;
+/**
+ * Options of `deepMerge`
+ */
+export interface DeepMergeOptions {
+    /**
+     * How to merge arrays, default `replace`
+     * @description `concat` 拼接数组；`{ key }` 按键合并元素，键相同的元素会被深度合并，其余元素追加到末尾
+     */
+    arrays?:
+        | 'replace'
+        | 'concat'
+        | { key: PropertyKey | ((item: unknown) => unknown) };
+    /**
+     * Custom merger, return `undefined` to fall back to the default merging
+     */
+    merger?: (
+        targetValue: unknown,
+        sourceValue: unknown,
+        path: PropertyKey[]
+    ) => unknown;
+}
+/**
+ * Deep merge two values without mutating them
+ * @param target
+ * @param source
+ * @param options
+ * @description 仅递归合并普通对象（以及按键合并的数组），其他值由 `source` 覆盖；`source` 中为 `undefined` 的值会被跳过，未合并的值保持引用
+ * @example deepMerge({ a: { b: 1 } }, { a: { c: 2 } }) // { a: { b: 1, c: 2 } }
+ * @example deepMerge({ a: [1] }, { a: [2] }, { arrays: 'concat' }) // { a: [1, 2] }
+ */
+export function deepMerge<T, S>(
+    target: T,
+    source: S,
+    options: DeepMergeOptions & { arrays: 'concat' }
+): DeepMerge<T, S, 'concat'>;
+export function deepMerge<T, S>(
+    target: T,
+    source: S,
+    options: DeepMergeOptions & { arrays: { key: unknown } }
+): DeepMerge<T, S, 'key'>;
+export function deepMerge<T, S>(
+    target: T,
+    source: S,
+    options?: DeepMergeOptions & { arrays?: 'replace' }
+): DeepMerge<T, S>;
+export function deepMerge(
+    target: unknown,
+    source: unknown,
+    options?: DeepMergeOptions
+): unknown {
+    const { arrays = 'replace', merger } = options ?? {};
+    const arrayKey = isString(arrays) ? null : arrays.key;
+    const keyOf = (item: unknown) => {
+        if (isFunction<(item: unknown) => unknown>(arrayKey)) return arrayKey(item);
+        return isObjectLike(item) ? item[arrayKey as PropertyKey] : item;
+    };
+    // 正在合并中的 source 对象，用于处理循环引用
+    const merging = new Map<object, unknown>();
+    const mergeArray = (
+        target: unknown[],
+        source: unknown[],
+        path: PropertyKey[]
+    ) => {
+        if (arrays === 'concat') return [...target, ...source];
+        if (arrayKey === null) return source;
+        const result = [...target];
+        const indexes = new Map(result.map((item, index) => [keyOf(item), index]));
+        source.forEach((item, i) => {
+            const key = keyOf(item);
+            const index = indexes.get(key);
+            if (index === void 0) {
+                indexes.set(key, result.push(item) - 1);
+            } else {
+                result[index] = merge(result[index], item, [...path, i]);
+            }
+        });
+        return result;
+    };
+    const merge = (
+        target: unknown,
+        source: unknown,
+        path: PropertyKey[]
+    ): unknown => {
+        if (merger) {
+            const result = merger(target, source, path);
+            if (result !== void 0) return result;
+        }
+        if (Array.isArray(target) && Array.isArray(source))
+            return mergeArray(target, source, path);
+        if (!isMergeable(target) || !isMergeable(source)) return source;
+        if (merging.has(source)) return merging.get(source);
+        const result = Object.create(Reflect.getPrototypeOf(target));
+        for (const key of Reflect.ownKeys(target)) {
+            if (Object.prototype.propertyIsEnumerable.call(target, key))
+                defineValue(result, key, target[key]);
+        }
+        merging.set(source, result);
+        for (const key of Reflect.ownKeys(source)) {
+            if (!Object.prototype.propertyIsEnumerable.call(source, key)) continue;
+            const value = source[key];
+            if (value === void 0) continue;
+            defineValue(
+                result,
+                key,
+                hasOwn(target, key)
+                    ? merge(target[key], value, [...path, key])
+                    : value
+            );
+        }
+        merging.delete(source);
+        return result;
+    };
+    return merge(target, source, []);
+}
+const isMergeable = (value: unknown): value is Record<PropertyKey, unknown> =>
+    isPlainObject(value) ||
+    (isObjectLike(value) && Reflect.getPrototypeOf(value) === null);
+
+
+// url
+
+/**
+ * Value of a query parameter
+ */
+export type QueryValue =
+    | string
+    | number
+    | boolean
+    | bigint
+    | Date
+    | null
+    | undefined
+    | QueryValue[]
+    | { [key: string]: QueryValue };
+/**
+ * Query parameters
+ */
+export type QueryParams = Record<string, QueryValue>;
+/**
+ * Parsed value of a query parameter
+ */
+export type ParsedQueryValue =
+    | string
+    | ParsedQueryValue[]
+    | { [key: string]: ParsedQueryValue };
+/**
+ * Parsed query parameters
+ */
+export type ParsedQuery = Record<string, ParsedQueryValue>;
+/**
+ * Options of `stringifyQuery` and `parseQuery`
+ */
+export interface QueryOptions {
+    /**
+     * How arrays are serialized, default `brackets`
+     * @description `brackets`: `a[]=1&a[]=2`，`index`: `a[0]=1&a[1]=2`，`repeat`: `a=1&a=2`，`comma`: `a=1,2`
+     */
+    arrayFormat?: 'brackets' | 'index' | 'repeat' | 'comma';
+}
+// 防止原型污染
+const UNSAFE_QUERY_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Serialize query parameters, nested objects use bracket notation
+ * @param params
+ * @param options
+ * @description `undefined` 与 `null` 会被忽略，Date 会被转换为 ISO 字符串
+ * @example stringifyQuery({ a: 1, b: [1, 2], c: { d: 'x' } }) // 'a=1&b[]=1&b[]=2&c[d]=x'
+ */
+export const stringifyQuery = (
+    params: QueryParams,
+    options: QueryOptions = {}
+): string => {
+    const { arrayFormat = 'brackets' } = options;
+    const pairs: string[] = [];
+    const append = (key: string, value: QueryValue) => {
+        if (!isDef(value)) return;
+        if (isArray<QueryValue[]>(value)) {
+            if (arrayFormat === 'comma') {
+                const items = value.filter(isDef).map(serializeQueryValue);
+                pairs.push(`${key}=${items.map(encodeURIComponent).join(',')}`);
+                return;
+            }
+            value.forEach((item, index) => {
+                if (arrayFormat === 'repeat') append(key, item);
+                else append(`${key}[${arrayFormat === 'index' ? index : ''}]`, item);
+            });
+            return;
+        }
+        if (isPlainObject(value)) {
+            for (const [subKey, item] of Object.entries(value)) {
+                append(`${key}[${encodeURIComponent(subKey)}]`, item as QueryValue);
+            }
+            return;
+        }
+        pairs.push(`${key}=${encodeURIComponent(serializeQueryValue(value))}`);
+    };
+    for (const [key, value] of Object.entries(params)) {
+        append(encodeURIComponent(key), value);
+    }
+    return pairs.join('&');
+};
+const serializeQueryValue = (value: QueryValue) =>
+    isDate(value) ? value.toISOString() : String(value);
+
+/**
+ * Parse a query string, nested keys use bracket notation
+ * @param query query string, leading `?` and the part before it are ignored
+ * @param options
+ * @example parseQuery('?a=1&b[]=1&b[]=2&c[d]=x') // { a: '1', b: ['1', '2'], c: { d: 'x' } }
+ */
+export const parseQuery = (
+    query: string,
+    options: QueryOptions = {}
+): ParsedQuery => {
+    const { arrayFormat = 'brackets' } = options;
+    const result: ParsedQuery = {};
+    const decode = (str: string) => {
+        try {
+            return decodeURIComponent(str.replace(/\+/g, ' '));
+        } catch {
+            return str;
+        }
+    };
+    const assign = (
+        target: Record<string, ParsedQueryValue> | ParsedQueryValue[],
+        segments: string[],
+        value: ParsedQueryValue
+    ) => {
+        const [segment, ...rest] = segments;
+        const container = target as Record<string, ParsedQueryValue>;
+        const key =
+            segment === '' && isArray(target) ? String(target.length) : segment;
+        if (rest.length === 0) {
+            const prev = container[key];
+            // 重复的键合并为数组
+            if (isDef(prev) && !isPlainObject(prev))
+                container[key] = wrapArray(prev).concat(value);
+            else container[key] = value;
+            return;
+        }
+        if (!isObjectLike(container[key])) {
+            container[key] = rest[0] === '' || isIndexKey(rest[0]) ? [] : {};
+        }
+        assign(
+            container[key] as Record<string, ParsedQueryValue>,
+            rest,
+            value
+        );
+    };
+    const search = query.replace(/^[^?]*\?/, '').replace(/#.*$/, '');
+    for (const pair of search.split('&')) {
+        if (!pair) continue;
+        const index = pair.indexOf('=');
+        const rawKey = decode(index === -1 ? pair : pair.slice(0, index));
+        const rawValue = index === -1 ? '' : pair.slice(index + 1);
+        // `a[b][]` => ['a', 'b', '']
+        const match = /^([^[]*)((?:\[[^\]]*\])*)$/.exec(rawKey);
+        const path = match
+            ? [
+                match[1],
+                ...Array.from(match[2].matchAll(/\[([^\]]*)\]/g), (it) => it[1]),
+            ]
+            : [rawKey];
+        if (path.some((key) => UNSAFE_QUERY_KEYS.includes(key))) continue;
+        const value =
+            arrayFormat === 'comma' && rawValue.includes(',')
+                ? rawValue.split(',').map(decode)
+                : decode(rawValue);
+        assign(result, path, value);
+    }
+    return result;
+};
+
+/**
+ * Build a URL from a base and query parameters
+ * @param base absolute or relative URL, existing query parameters are kept
+ * @param query
+ * @param options
+ * @example buildURL('https://a.com/api?x=1', { page: 2, tags: ['a'] }) // 'https://a.com/api?x=1&page=2&tags[]=a'
+ */
+export const buildURL = (
+    base: string,
+    query: QueryParams = {},
+    options: QueryOptions = {}
+): string => {
+    const hashIndex = base.indexOf('#');
+    const hash = hashIndex === -1 ? '' : base.slice(hashIndex);
+    const path = hashIndex === -1 ? base : base.slice(0, hashIndex);
+    const search = stringifyQuery(query, options);
+    if (!search) return base;
+    const separator = !path.includes('?') ? '?' : /[?&]$/.test(path) ? '' : '&';
+    return `${path}${separator}${search}${hash}`;
+};
+
+
 // other utilities
 
 /**
@@ -215,62 +1238,553 @@ export const padString = (
     return String(v)[pos === 'start' ? 'padStart' : 'padEnd'](len, fill);
 };
 
+/**
+ * Options of `debounce`
+ */
+export interface DebounceOptions {
+    /**
+     * Invoke on the leading edge of the timeout, default `false`
+     */
+    leading?: boolean;
+    /**
+     * Invoke on the trailing edge of the timeout, default `true`
+     */
+    trailing?: boolean;
+    /**
+     * The maximum time `func` is allowed to be delayed before it's invoked
+     */
+    maxWait?: number;
+}
+/**
+ * Debounced function
+ */
+export interface DebouncedFunc<T extends (...args: never[]) => unknown> {
+    (this: ThisParameterType<T>, ...args: Parameters<T>):
+        | ReturnType<T>
+        | undefined;
+    /**
+     * Cancel the pending invocation
+     */
+    cancel(): void;
+    /**
+     * Immediately invoke the pending invocation
+     */
+    flush(): ReturnType<T> | undefined;
+    /**
+     * Check if there is a pending invocation
+     */
+    pending(): boolean;
+}
 /**
  * Debounce a function
  * @description 在事件被触发n秒后再执行回调，如果在这n秒内又被触发，则重新计时
  * @param func
  * @param delay
- * @this null
+ * @param options
+ * @example const save = debounce(submit, 300, { maxWait: 1000 }); save.flush();
  */
-export function debounce<T extends (...args: unknown[]) => void>(
+export function debounce<T extends (...args: never[]) => unknown>(
     func: T,
-    delay = 500
-) {
-    let timeout: number | null = null;
-    return (...args: Parameters<T>) => {
-        if (timeout !== null) {
-            clearTimeout(timeout);
+    delay = 500,
+    options: DebounceOptions = {}
+): DebouncedFunc<T> {
+    const { leading = false, trailing = true } = options;
+    const maxing = isDef(options.maxWait);
+    const maxWait = maxing ? Math.max(options.maxWait!, delay) : 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let lastArgs: Parameters<T> | undefined;
+    let lastThis: ThisParameterType<T> | undefined;
+    let lastCallTime: number | undefined;
+    let lastInvokeTime = 0;
+    let result: ReturnType<T> | undefined;
+
+    const invoke = (time: number) => {
+        const args = lastArgs!,
+            thisArg = lastThis;
+        lastArgs = lastThis = void 0;
+        lastInvokeTime = time;
+        result = func.apply(thisArg, args) as ReturnType<T>;
+        return result;
+    };
+    const shouldInvoke = (time: number) => {
+        if (lastCallTime === void 0) return true;
+        const sinceLastCall = time - lastCallTime;
+        return (
+            sinceLastCall >= delay ||
+            // 系统时间被回拨
+            sinceLastCall < 0 ||
+            (maxing && time - lastInvokeTime >= maxWait)
+        );
+    };
+    const remainingWait = (time: number) => {
+        const remaining = delay - (time - lastCallTime!);
+        return maxing
+            ? Math.min(remaining, maxWait - (time - lastInvokeTime))
+            : remaining;
+    };
+    const trailingEdge = (time: number) => {
+        timer = void 0;
+        // 只有在防抖期间被调用过才执行
+        if (trailing && lastArgs) return invoke(time);
+        lastArgs = lastThis = void 0;
+        return result;
+    };
+    const timerExpired = () => {
+        const time = Date.now();
+        if (shouldInvoke(time)) {
+            trailingEdge(time);
+            return;
         }
-        timeout = window.setTimeout(() => {
-            func(...args);
-        }, delay);
+        timer = setTimeout(timerExpired, remainingWait(time));
     };
+    const leadingEdge = (time: number) => {
+        lastInvokeTime = time;
+        timer = setTimeout(timerExpired, delay);
+        return leading ? invoke(time) : result;
+    };
+
+    function debounced(this: ThisParameterType<T>, ...args: Parameters<T>) {
+        const time = Date.now();
+        const isInvoking = shouldInvoke(time);
+        lastArgs = args;
+        // eslint-disable-next-line @typescript-eslint/no-this-alias
+        lastThis = this;
+        lastCallTime = time;
+        if (isInvoking) {
+            if (timer === void 0) return leadingEdge(time);
+            if (maxing) {
+                clearTimeout(timer);
+                timer = setTimeout(timerExpired, delay);
+                return invoke(time);
+            }
+        }
+        if (timer === void 0) timer = setTimeout(timerExpired, delay);
+        return result;
+    }
+    debounced.cancel = () => {
+        if (timer !== void 0) clearTimeout(timer);
+        lastInvokeTime = 0;
+        lastArgs = lastThis = lastCallTime = timer = void 0;
+    };
+    debounced.flush = () => {
+        if (timer === void 0) return result;
+        clearTimeout(timer);
+        return trailingEdge(Date.now());
+    };
+    debounced.pending = () => timer !== void 0;
+    return debounced;
+}
+/**
+ * Options of `throttle`
+ */
+export interface ThrottleOptions {
+    /**
+     * Invoke on the leading edge of the window, default `true`
+     */
+    leading?: boolean;
+    /**
+     * Invoke on the trailing edge of the window with the last arguments, default `true`
+     */
+    trailing?: boolean;
 }
+/**
+ * Throttled function
+ */
+export type ThrottledFunc<T extends (...args: never[]) => unknown> =
+    DebouncedFunc<T>;
 /**
  * Throttle a function
  * @description 规定在一个单位时间内，只能触发一次函数。如果这个单位时间内多次触发函数，只有一次生效
  * @param func 目标函数
- * @param delay 延迟
- * @this null
+ * @param delay 延迟，为 `raf` 时每个动画帧最多执行一次（适用于 scroll、resize 等事件）
+ * @param options
+ * @example throttle(onScroll, 'raf')
+ * @example throttle(onInput, 200, { leading: false })
  */
-export function throttle<T extends (...args: unknown[]) => void>(
+export function throttle<T extends (...args: never[]) => unknown>(
     func: T,
-    delay = 500
-) {
-    let previous: number;
-    let defineTimer: null | number = null;
-    return (...args: Parameters<T>) => {
-        const now = Date.now();
-        if (previous && now < previous + delay) {
-            defineTimer && window.clearTimeout(defineTimer);
-            defineTimer = window.setTimeout(() => {
-                func(...args);
-                previous = now;
-            }, delay);
-        } else {
-            func(...args);
-            previous = now;
+    delay: number | 'raf' = 500,
+    options: ThrottleOptions = {}
+): ThrottledFunc<T> {
+    const { leading = true, trailing = true } = options;
+    if (delay === 'raf') return throttleFrame(func, leading, trailing);
+    return debounce(func, delay, { leading, trailing, maxWait: delay });
+}
+const throttleFrame = <T extends (...args: never[]) => unknown>(
+    func: T,
+    leading: boolean,
+    trailing: boolean
+): ThrottledFunc<T> => {
+    // SSR 或 Worker 中没有 requestAnimationFrame 时退化为 16ms 定时器
+    const hasFrame = typeof requestAnimationFrame === 'function';
+    const request = (callback: () => void): unknown =>
+        hasFrame ? requestAnimationFrame(callback) : setTimeout(callback, 16);
+    const cancel = (id: unknown) =>
+        hasFrame
+            ? cancelAnimationFrame(id as number)
+            : clearTimeout(id as ReturnType<typeof setTimeout>);
+    let frame: unknown;
+    let lastArgs: Parameters<T> | undefined;
+    let lastThis: ThisParameterType<T> | undefined;
+    let result: ReturnType<T> | undefined;
+
+    const invoke = () => {
+        const args = lastArgs!,
+            thisArg = lastThis;
+        lastArgs = lastThis = void 0;
+        result = func.apply(thisArg, args) as ReturnType<T>;
+        return result;
+    };
+    const frameExpired = () => {
+        frame = void 0;
+        if (trailing && lastArgs) {
+            invoke();
+            // 开启新的一帧窗口，避免下一次调用立即触发
+            frame = request(frameExpired);
+        }
+        lastArgs = lastThis = void 0;
+    };
+
+    function throttled(this: ThisParameterType<T>, ...args: Parameters<T>) {
+        lastArgs = args;
+        // eslint-disable-next-line @typescript-eslint/no-this-alias
+        lastThis = this;
+        if (frame === void 0) {
+            frame = request(frameExpired);
+            if (leading) return invoke();
+        }
+        return result;
+    }
+    throttled.cancel = () => {
+        if (frame !== void 0) cancel(frame);
+        frame = lastArgs = lastThis = void 0;
+    };
+    throttled.flush = () => {
+        if (frame === void 0) return result;
+        cancel(frame);
+        frame = void 0;
+        if (trailing && lastArgs) invoke();
+        lastArgs = lastThis = void 0;
+        return result;
+    };
+    throttled.pending = () => frame !== void 0;
+    return throttled;
+};
+
+/**
+ * Options of `memoize`
+ */
+export interface MemoizeOptions<T extends (...args: never[]) => unknown> {
+    /**
+     * Resolve the cache key, default the argument when called with one, otherwise all arguments
+     * @description 默认情况下传入多个参数时，逐个比较参数（SameValueZero），需要遍历所有缓存项
+     */
+    key?: (...args: Parameters<T>) => unknown;
+    /**
+     * Maximum number of entries, the least recently used entry is evicted first
+     */
+    maxSize?: number;
+    /**
+     * Time to live of entries in milliseconds
+     */
+    ttl?: number;
+    /**
+     * Compare arguments instead of resolving a key, `true` to use `isEquals`
+     * @description 需要遍历所有缓存项，建议与 `maxSize` 一同使用
+     */
+    equals?: boolean | ((x: Parameters<T>, y: Parameters<T>) => boolean);
+}
+/**
+ * Cache handle of a memoized function
+ */
+export interface MemoizeCache<T extends (...args: never[]) => unknown> {
+    has(...args: Parameters<T>): boolean;
+    delete(...args: Parameters<T>): boolean;
+    clear(): void;
+    readonly size: number;
+}
+/**
+ * Memoized function
+ */
+export interface MemoizedFunc<T extends (...args: never[]) => unknown> {
+    (this: ThisParameterType<T>, ...args: Parameters<T>): ReturnType<T>;
+    readonly cache: MemoizeCache<T>;
+}
+const isSameArgs = (x: readonly unknown[], y: readonly unknown[]) =>
+    x.length === y.length &&
+    x.every((value, i) => value === y[i] || (value !== value && y[i] !== y[i]));
+/**
+ * Memoize a function
+ * @param func
+ * @param options
+ * @description 返回 Promise 时缓存 Promise 本身，Promise 被拒绝后会从缓存中移除
+ * @example const format = memoize(formatPrice, { maxSize: 100 });
+ * @example const load = memoize(fetchUser, { ttl: 60_000 }); load.cache.delete(id);
+ */
+export function memoize<T extends (...args: never[]) => unknown>(
+    func: T,
+    options: MemoizeOptions<T> = {}
+): MemoizedFunc<T> {
+    const { key, maxSize = Infinity, ttl = Infinity } = options;
+    const equals =
+        options.equals === true
+            ? (x: Parameters<T>, y: Parameters<T>) => isEquals(x, y)
+            : options.equals || null;
+    // Map 保持插入顺序，最近使用的项位于末尾
+    const entries = new Map<
+        unknown,
+        { value: ReturnType<T>; args: Parameters<T>; expires: number }
+    >();
+    const keyOf = (args: Parameters<T>): unknown => {
+        if (equals) {
+            for (const [entryKey, entry] of entries) {
+                if (equals(entry.args, args)) return entryKey;
+            }
+            // 未命中时以参数数组作为新的键
+            return args;
+        }
+        if (key) return key(...args);
+        if (args.length <= 1) return args[0];
+        for (const [entryKey, entry] of entries) {
+            // 以参数数组作为键的缓存项
+            if (entryKey === entry.args && isSameArgs(entry.args, args))
+                return entryKey;
+        }
+        return args;
+    };
+    const lookup = (cacheKey: unknown) => {
+        const entry = entries.get(cacheKey);
+        if (!entry) return void 0;
+        if (entry.expires <= Date.now()) {
+            entries.delete(cacheKey);
+            return void 0;
+        }
+        return entry;
+    };
+
+    function memoized(this: ThisParameterType<T>, ...args: Parameters<T>) {
+        const cacheKey = keyOf(args);
+        const cached = lookup(cacheKey);
+        if (cached) {
+            entries.delete(cacheKey);
+            entries.set(cacheKey, cached);
+            return cached.value;
+        }
+        const value = func.apply(this, args) as ReturnType<T>;
+        const entry = { value, args, expires: Date.now() + ttl };
+        entries.set(cacheKey, entry);
+        if (entries.size > maxSize) entries.delete(entries.keys().next().value);
+        if (isFunction((value as PromiseLike<unknown> | undefined)?.then)) {
+            (value as PromiseLike<unknown>).then(void 0, () => {
+                if (entries.get(cacheKey) === entry) entries.delete(cacheKey);
+            });
         }
+        return value;
+    }
+    memoized.cache = {
+        has: (...args: Parameters<T>) => lookup(keyOf(args)) !== void 0,
+        delete: (...args: Parameters<T>) => entries.delete(keyOf(args)),
+        clear: () => entries.clear(),
+        get size() {
+            return entries.size;
+        },
     };
+    return memoized;
 }
 
+/**
+ * Thrown when an operation is aborted by an `AbortSignal`
+ */
+export class AbortError extends Error {
+    /**
+     * The abort reason of the signal
+     */
+    readonly cause: unknown;
+    constructor(cause?: unknown) {
+        super('The operation was aborted');
+        this.name = 'AbortError';
+        this.cause = cause;
+    }
+}
+/**
+ * Thrown when an operation does not settle in time
+ */
+export class TimeoutError extends Error {
+    readonly ms: number;
+    constructor(ms: number, message = `The operation timed out after ${ms}ms`) {
+        super(message);
+        this.name = 'TimeoutError';
+        this.ms = ms;
+    }
+}
+/**
+ * A failed attempt of `retry`
+ */
+export interface RetryAttempt {
+    /**
+     * Attempt number, starting from 1
+     */
+    attempt: number;
+    error: unknown;
+    /**
+     * Delay before the next attempt, `undefined` for the last attempt
+     */
+    delay?: number;
+}
+/**
+ * Thrown when all attempts of `retry` failed
+ */
+export class RetryExhaustedError extends Error {
+    readonly attempts: RetryAttempt[];
+    /**
+     * The error of the last attempt
+     */
+    readonly cause: unknown;
+    constructor(attempts: RetryAttempt[]) {
+        const cause = attempts[attempts.length - 1]?.error;
+        super(
+            `Failed after ${attempts.length} attempts: ${
+                cause instanceof Error ? cause.message : String(cause)
+            }`
+        );
+        this.name = 'RetryExhaustedError';
+        this.attempts = attempts;
+        this.cause = cause;
+    }
+}
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new AbortError(signal.reason);
+};
+
 /**
  * Wait for a certain amount of time
  * @param ms 等待时间(ms)
+ * @param options 中止时以 `AbortError` 拒绝
  * @example await wait(100) // 等待 100 毫秒
+ * @example await wait(100, { signal: controller.signal })
+ */
+export const wait = (ms: number, options: { signal?: AbortSignal } = {}) => {
+    const { signal } = options;
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new AbortError(signal.reason));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AbortError(signal?.reason));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+/**
+ * Reject with `TimeoutError` if the promise does not settle in time
+ * @param promise
+ * @param ms
+ * @param message
+ * @example await withTimeout(fetch(url), 5000)
  */
-export const wait = (ms: number) =>
-    new Promise<void>((resolve) => setTimeout(resolve, ms));
+export const withTimeout = <T>(
+    promise: PromiseLike<T>,
+    ms: number,
+    message?: string
+): Promise<T> => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new TimeoutError(ms, message)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Options of `retry`
+ */
+export interface RetryOptions {
+    /**
+     * Maximum number of retries after the first attempt, default `3`
+     */
+    retries?: number;
+    /**
+     * Base delay in milliseconds, default `100`
+     */
+    delay?: number;
+    /**
+     * Maximum delay in milliseconds, default `Infinity`
+     */
+    maxDelay?: number;
+    /**
+     * How the delay grows, default `exponential`
+     * @description `exponential`: delay * 2^(n-1)，`linear`: delay * n，n 为重试次数
+     */
+    backoff?: 'exponential' | 'linear' | ((retry: number) => number);
+    /**
+     * Randomize the delay between `0` and the computed delay (full jitter), default `false`
+     */
+    jitter?: boolean;
+    /**
+     * Whether to retry after an error, the error is thrown as is when `false` is returned
+     */
+    shouldRetry?: (error: unknown, attempt: number) => boolean;
+    signal?: AbortSignal;
+    /**
+     * Called before waiting for the next attempt
+     */
+    onRetry?: (error: unknown, attempt: number, delay: number) => void;
+}
+/**
+ * Retry an async operation
+ * @param fn receives the attempt number (starting from 1) and the signal
+ * @param options
+ * @description 所有尝试均失败时抛出 `RetryExhaustedError`，中止时抛出 `AbortError`
+ * @example await retry(() => fetchUser(id), { retries: 5, jitter: true })
+ */
+export const retry = async <T>(
+    fn: (attempt: number, signal?: AbortSignal) => T | PromiseLike<T>,
+    options: RetryOptions = {}
+): Promise<Awaited<T>> => {
+    const {
+        retries = 3,
+        delay = 100,
+        maxDelay = Infinity,
+        backoff = 'exponential',
+        jitter = false,
+        shouldRetry,
+        signal,
+        onRetry,
+    } = options;
+    const attempts: RetryAttempt[] = [];
+    const delayOf = (retry: number) => {
+        const base = isFunction<(retry: number) => number>(backoff)
+            ? backoff(retry)
+            : backoff === 'linear'
+                ? delay * retry
+                : delay * 2 ** (retry - 1);
+        const capped = Math.min(base, maxDelay);
+        return jitter ? Math.round(Math.random() * capped) : capped;
+    };
+    for (let attempt = 1; ; attempt++) {
+        throwIfAborted(signal);
+        try {
+            return await fn(attempt, signal);
+        } catch (error) {
+            throwIfAborted(signal);
+            if (shouldRetry && !shouldRetry(error, attempt)) throw error;
+            if (attempt > retries) {
+                attempts.push({ attempt, error });
+                throw new RetryExhaustedError(attempts);
+            }
+            const ms = delayOf(attempt);
+            attempts.push({ attempt, error, delay: ms });
+            onRetry?.(error, attempt, ms);
+            await wait(ms, { signal });
+        }
+    }
+};
 /**
  * Compose a series of transformations
  * @param initialValue
@@ -327,6 +1841,96 @@ type PipeCarrying<PrevValue> = <
             : { _: PrevValue }
 >;
 
+/**
+ * Options of `pipeAsync`
+ */
+export interface PipeAsyncOptions {
+    /**
+     * Stop the pipeline before the next step once aborted, rejects with `AbortError`
+     */
+    signal?: AbortSignal;
+}
+/**
+ * Thrown when a step of `pipeAsync` fails
+ */
+export class PipeError extends Error {
+    /**
+     * Index of the failed step, skipped steps are counted
+     */
+    readonly step: number;
+    readonly cause: unknown;
+    constructor(step: number, cause: unknown) {
+        super(
+            `Pipe step ${step} failed: ${
+                cause instanceof Error ? cause.message : String(cause)
+            }`
+        );
+        this.name = 'PipeError';
+        this.step = step;
+        this.cause = cause;
+    }
+}
+/**
+ * Compose a series of sync or async transformations
+ * @param initialValue
+ * @param options
+ * @description 与 `pipe` 不同，转换函数在最终调用时才依次执行，每一步都会等待上一步的 Promise
+ * @example await pipeAsync(1)(async prev => prev + 2)(prev => prev.toString())() // '3'
+ */
+export const pipeAsync = <T>(
+    initialValue: T,
+    options: PipeAsyncOptions = {}
+): PipeAsyncCarrying<Awaited<T>> => {
+    const { signal } = options;
+    const run = async (steps: unknown[]) => {
+        let value: unknown = await initialValue;
+        for (let i = 0; i < steps.length; i++) {
+            throwIfAborted(signal);
+            const step = steps[i];
+            // skip
+            if (!isFunction<PipeAsyncStep>(step)) continue;
+            try {
+                value = await step(value, signal);
+            } catch (e) {
+                // 由中止引起的错误直接抛出
+                throwIfAborted(signal);
+                throw new PipeError(i, e);
+            }
+        }
+        throwIfAborted(signal);
+        return value;
+    };
+    const carrying = (steps: unknown[]) => {
+        return (...transformers: [unknown] | []): unknown => {
+            // return
+            if (transformers.length === 0) return run(steps);
+            // continue
+            return carrying([...steps, transformers[0]]);
+        };
+    };
+    return carrying([]) as PipeAsyncCarrying<Awaited<T>>;
+};
+type PipeAsyncStep = (prevValue: unknown, signal?: AbortSignal) => unknown;
+type PipeAsyncTransformer<PrevValue> =
+    | undefined
+    | null
+    | false
+    | ((prevValue: PrevValue, signal?: AbortSignal) => unknown);
+type PipeAsyncCarrying<PrevValue> = <
+    NextArgs extends [value: PipeAsyncTransformer<PrevValue>] | []
+>(
+    ...transformer: NextArgs
+) => [] extends NextArgs
+    ? Promise<PrevValue>
+    : PipeAsyncCarrying<
+        NextArgs[0] extends (
+            prevValue: PrevValue,
+            signal?: AbortSignal
+        ) => unknown
+            ? Awaited<ReturnType<NextArgs[0]>>
+            : PrevValue
+    >;
+
 /**
  * Clip a number to be within a certain range
  * @param min
@@ -340,9 +1944,13 @@ export const clamp = (min: number, value: number, max: number) =>
 
 // mod tests
 if (import.meta.vitest) {
-    const { describe, expect, it } = import.meta.vitest;
+    const { afterEach, describe, expect, expectTypeOf, it, vi } =
+        import.meta.vitest;
 
     describe('Tests', () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
         it('isEquals', () => {
             expect(isEquals(1, 1)).toBe(true);
             expect(isEquals(1, 2)).toBe(false);
@@ -371,6 +1979,123 @@ if (import.meta.vitest) {
             expect(isEquals({ a: 1 }, { a: null, b: 2 })).toBe(false);
             expect(isEquals({ a: null, b: 3 }, { a: null, b: 2 })).toBe(false);
         });
+        it('isEquals with primitives', () => {
+            expect(isEquals(NaN, NaN)).toBe(true);
+            expect(isEquals(0, -0)).toBe(true);
+            expect(isEquals(0, -0, { strict: true })).toBe(false);
+            expect(isEquals(NaN, NaN, { strict: true })).toBe(true);
+            expect(isEquals(Object(1), Object(1))).toBe(true);
+            expect(isEquals(Object('a'), Object('b'))).toBe(false);
+            expect(isEquals(Object(1), 1)).toBe(false);
+            expect(isEquals([], {})).toBe(false);
+        });
+        it('isEquals with Date and RegExp', () => {
+            expect(isEquals(new Date(1), new Date(1))).toBe(true);
+            expect(isEquals(new Date(1), new Date(2))).toBe(false);
+            expect(isEquals(new Date(NaN), new Date(NaN))).toBe(true);
+            expect(isEquals(/a/g, /a/g)).toBe(true);
+            expect(isEquals(/a/g, /a/i)).toBe(false);
+            expect(isEquals(/a/, /b/)).toBe(false);
+        });
+        it('isEquals with Map and Set', () => {
+            expect(isEquals(new Map([[1, 2]]), new Map([[1, 2]]))).toBe(true);
+            expect(isEquals(new Map([[1, 2]]), new Map([[1, 3]]))).toBe(false);
+            expect(isEquals(new Map([[1, 2]]), new Map([[2, 2]]))).toBe(false);
+            expect(
+                isEquals(
+                    new Map([[{ a: 1 }, 'x'], [{ a: 2 }, 'y']]),
+                    new Map([[{ a: 2 }, 'y'], [{ a: 1 }, 'x']])
+                )
+            ).toBe(true);
+            expect(
+                isEquals(new Map([[{ a: 1 }, 'x']]), new Map([[{ a: 1 }, 'y']]))
+            ).toBe(false);
+            expect(isEquals(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+            expect(isEquals(new Set([1, 2]), new Set([1, 3]))).toBe(false);
+            expect(
+                isEquals(new Set([{ a: 1 }, { a: 1 }]), new Set([{ a: 1 }, { a: 1 }]))
+            ).toBe(true);
+            expect(
+                isEquals(new Set([{ a: 1 }, { a: 2 }]), new Set([{ a: 1 }, { a: 1 }]))
+            ).toBe(false);
+            expect(isEquals(new Map(), new Set())).toBe(false);
+        });
+        it('isEquals with ArrayBuffer and typed arrays', () => {
+            expect(isEquals(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBe(
+                true
+            );
+            expect(isEquals(new Uint8Array([1, 2]), new Uint8Array([1, 3]))).toBe(
+                false
+            );
+            expect(isEquals(new Uint8Array([1, 2]), new Int8Array([1, 2]))).toBe(
+                false
+            );
+            expect(
+                isEquals(new Float64Array([0]), new Float64Array([-0]), {
+                    strict: true,
+                })
+            ).toBe(false);
+            expect(
+                isEquals(new Uint8Array([1, 2]).buffer, new Uint8Array([1, 2]).buffer)
+            ).toBe(true);
+            expect(
+                isEquals(
+                    new DataView(new Uint8Array([1, 2, 3]).buffer, 1),
+                    new DataView(new Uint8Array([2, 3]).buffer)
+                )
+            ).toBe(true);
+        });
+        it('isEquals with prototypes', () => {
+            class Point {
+                constructor(public x: number) {}
+            }
+            expect(isEquals(new Point(1), { x: 1 })).toBe(true);
+            expect(isEquals(new Point(1), { x: 1 }, { strict: true })).toBe(false);
+            expect(isEquals(new Point(1), new Point(1), { strict: true })).toBe(
+                true
+            );
+            const sym = Symbol('key');
+            expect(isEquals({ [sym]: 1 }, { [sym]: 2 })).toBe(true);
+            expect(isEquals({ [sym]: 1 }, { [sym]: 2 }, { strict: true })).toBe(
+                false
+            );
+            expect(isEquals(new Error('a'), new Error('a'))).toBe(true);
+            expect(isEquals(new Error('a'), new Error('b'))).toBe(false);
+        });
+        it('isEquals with circular references', () => {
+            const a: Record<string, unknown> = { v: 1 };
+            const b: Record<string, unknown> = { v: 1 };
+            a.self = a;
+            b.self = b;
+            expect(isEquals(a, b)).toBe(true);
+            const c: Record<string, unknown> = { v: 2 };
+            c.self = c;
+            expect(isEquals(a, c)).toBe(false);
+            const list: unknown[] = [1];
+            list.push(list);
+            const other: unknown[] = [1];
+            other.push(other);
+            expect(isEquals(list, other)).toBe(true);
+        });
+        it('isEquals with custom comparer', () => {
+            const compare = (x: unknown, y: unknown) =>
+                isDate(x) && isDate(y)
+                    ? x.toDateString() === y.toDateString()
+                    : undefined;
+            expect(
+                isEquals(
+                    { at: new Date(2023, 0, 1, 8) },
+                    { at: new Date(2023, 0, 1, 20) },
+                    { compare }
+                )
+            ).toBe(true);
+            expect(
+                isEquals(
+                    { at: new Date(2023, 0, 1, 8) },
+                    { at: new Date(2023, 0, 1, 20) }
+                )
+            ).toBe(false);
+        });
         it('isDef', () => {
             expect(isDef(2)).toBe(true);
             expect(isDef(undefined)).toBe(false);
@@ -414,6 +2139,11 @@ if (import.meta.vitest) {
             expect(isEmpty('string')).toBe(false);
             expect(isEmpty(new Date())).toBe(false);
         });
+        it('isBoolean', () => {
+            expect(isBoolean(false)).toBe(true);
+            expect(isBoolean(0)).toBe(false);
+            expect(isBoolean(Object(true))).toBe(false);
+        });
         it('isSymbol', () => {
             expect(isSymbol(Symbol())).toBe(true);
             expect(isSymbol(null)).toBe(false);
@@ -442,6 +2172,345 @@ if (import.meta.vitest) {
             expect(isURL('www.google.com')).toBe(false);
         });
 
+        it('get', () => {
+            const obj = {
+                user: {
+                    name: 'a',
+                    addresses: [{ city: 'x' }, { city: 'y' }],
+                    nickname: undefined as string | undefined,
+                },
+            };
+            expect(get(obj, 'user.addresses.1.city')).toBe('y');
+            expect(get(obj, 'user.addresses[0].city')).toBe('x');
+            expect(get(obj, ['user', 'addresses', 0, 'city'])).toBe('x');
+            expect(get(obj, 'user.addresses.2.city')).toBe(undefined);
+            expect(get(obj, 'user.nickname', 'none')).toBe('none');
+            expect(get(obj, ['user', 'name', 'length'])).toBe(1);
+            expectTypeOf(get(obj, 'user.addresses.0.city')).toEqualTypeOf<string>();
+            expectTypeOf(get(obj, 'user.nickname', 'none')).toEqualTypeOf<string>();
+            expectTypeOf(get(obj, 'user.addresses[1].city')).toEqualTypeOf<string>();
+            expectTypeOf<Path<{ a: { b: number[] } }>>().toEqualTypeOf<
+                'a' | 'a.b' | `a.b.${number}` | `a.b[${number}]`
+            >();
+            expectTypeOf<Path<{ a: [{ b: number }] }>>().toEqualTypeOf<
+                'a' | 'a.0' | 'a.0.b' | 'a[0]' | 'a[0].b'
+            >();
+            expectTypeOf<PathValue<{ a: number[][] }, 'a[0][1]'>>().toEqualTypeOf<number>();
+            expectTypeOf<
+                PathValue<{ a?: { b: [string, number] } }, 'a.b.1'>
+            >().toEqualTypeOf<number | undefined>();
+        });
+        it('has', () => {
+            const obj = { a: { b: undefined, c: [1] } };
+            expect(has(obj, 'a.b')).toBe(true);
+            expect(has(obj, 'a.c[0]')).toBe(true);
+            expect(has(obj, 'a.c[1]')).toBe(false);
+            expect(has(obj, ['a', 'd'])).toBe(false);
+            expect(has(obj, 'a.toString')).toBe(false);
+            expect(has(null, 'a')).toBe(false);
+            expect(has(obj, '')).toBe(false);
+        });
+        it('set', () => {
+            const obj = { a: { b: 1 }, c: { d: [1, 2] } };
+            const next = set(obj, 'a.b', 2);
+            expect(next).toEqual({ a: { b: 2 }, c: { d: [1, 2] } });
+            expect(obj.a.b).toBe(1);
+            expect(next.c).toBe(obj.c);
+            expect(set(obj, 'a.b', 1)).toBe(obj);
+            const list = set(obj, 'c.d.1', 3);
+            expect(list.c.d).toEqual([1, 3]);
+            expect(list.a).toBe(obj.a);
+            expect(set({}, ['x', '0', 'y'], 1)).toEqual({ x: [{ y: 1 }] });
+            class Point {
+                constructor(public x: number) {}
+            }
+            const point = set({ p: new Point(1) }, 'p.x', 2);
+            expect(point.p).toBeInstanceOf(Point);
+            expect(point.p.x).toBe(2);
+        });
+        it('unset', () => {
+            const obj = { a: { b: 1, c: 2 }, d: [1, 2, 3], e: {} };
+            const next = unset(obj, 'a.b');
+            expect(next).toEqual({ a: { c: 2 }, d: [1, 2, 3], e: {} });
+            expect(next.e).toBe(obj.e);
+            expect(obj.a).toEqual({ b: 1, c: 2 });
+            expect(unset(obj, 'd.1').d).toEqual([1, 3]);
+            expect(unset(obj, ['a', 'x'])).toBe(obj);
+        });
+        it('set, unset and pick keep __proto__ as an own key', () => {
+            const admin = set({}, ['__proto__'], { admin: true }) as Record<string, unknown>;
+            expect(Reflect.getPrototypeOf(admin)).toBe(Object.prototype);
+            expect(admin.admin).toBeUndefined();
+            expect(Object.keys(admin)).toEqual(['__proto__']);
+            const polluted: Record<string, unknown> = set(
+                {} as Record<string, Record<string, number>>,
+                '__proto__.polluted',
+                1
+            );
+            expect(Reflect.getPrototypeOf(polluted)).toBe(Object.prototype);
+            expect(polluted.polluted).toBeUndefined();
+            expect(get(polluted, ['__proto__', 'polluted'])).toBe(1);
+            const payload = JSON.parse('{"__proto__":{"admin":true},"a":1,"b":{"c":1}}');
+            const picked = pick(payload, ['__proto__', 'a']) as Record<string, unknown>;
+            expect(Reflect.getPrototypeOf(picked)).toBe(Object.prototype);
+            expect(picked.admin).toBeUndefined();
+            expect(Object.keys(picked)).toEqual(['__proto__', 'a']);
+            const withoutC = unset(payload, 'b.c') as Record<string, unknown>;
+            expect(Reflect.getPrototypeOf(withoutC)).toBe(Object.prototype);
+            expect(withoutC.admin).toBeUndefined();
+            expect(Object.keys(withoutC)).toEqual(['__proto__', 'a', 'b']);
+            expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+        });
+        it('pick and omit with key paths', () => {
+            const obj = { a: { b: 1, c: 2 }, d: 3, 'e.f': 4 };
+            const picked = pick(obj, ['a.b', 'd']);
+            expect(picked).toEqual({ a: { b: 1 }, d: 3 });
+            expectTypeOf(picked).toEqualTypeOf<{ a: { b: number }; d: number }>();
+            expect(pick(obj, ['e.f'])).toEqual({ 'e.f': 4 });
+            const omitted = omit(obj, ['a.b', 'd']);
+            expect(omitted).toEqual({ a: { c: 2 }, 'e.f': 4 });
+            expectTypeOf(omitted).toEqualTypeOf<{
+                a: { c: number };
+                'e.f': number;
+            }>();
+            expect(obj.a).toEqual({ b: 1, c: 2 });
+            const list = { items: [{ x: 1, y: 2 }], z: 3 };
+            expect(pick(list, ['items[0].x'])).toEqual({ items: [{ x: 1 }] });
+            expect(omit(list, ['items[0].y', 'z'])).toEqual({ items: [{ x: 1 }] });
+        });
+        it('deepClone', () => {
+            const values: unknown[] = [
+                1,
+                NaN,
+                'a',
+                null,
+                undefined,
+                Object(1),
+                Object('a'),
+                new Date(1),
+                /a/gi,
+                new Map<unknown, unknown>([
+                    [{ a: 1 }, { b: [1, 2] }],
+                    ['k', new Set([1])],
+                ]),
+                new Set([{ a: 1 }, [1, 2]]),
+                new Uint8Array([1, 2]).buffer,
+                new Float64Array([0.5, -0]),
+                new DataView(new Uint8Array([1, 2, 3]).buffer, 1),
+                new Error('a'),
+                { a: [{ b: new Date(2) }], [Symbol.for('s')]: 1 },
+            ];
+            for (const value of values) {
+                const cloned = deepClone(value);
+                expect(isEquals(cloned, value, { strict: true })).toBe(true);
+                if (typeof value === 'object' && value !== null)
+                    expect(cloned).not.toBe(value);
+            }
+            const source = { list: [{ a: 1 }], date: new Date(1) };
+            const cloned = deepClone(source);
+            cloned.list[0].a = 2;
+            cloned.date.setTime(2);
+            expect(source).toEqual({ list: [{ a: 1 }], date: new Date(1) });
+            const fn = () => void 0;
+            expect(deepClone({ fn }).fn).toBe(fn);
+        });
+        it('deepClone with prototypes and cycles', () => {
+            class Point {
+                constructor(public x: number) {}
+            }
+            class Registry extends Map<string, Point> {}
+            expect(deepClone(new Point(1))).not.toBeInstanceOf(Point);
+            expect(deepClone(new Point(1))).toEqual({ x: 1 });
+            const point = deepClone(new Point(1), { keepPrototype: true });
+            expect(point).toBeInstanceOf(Point);
+            expect(isEquals(point, new Point(1), { strict: true })).toBe(true);
+            const registry = deepClone(new Registry([['a', new Point(1)]]), {
+                keepPrototype: true,
+            });
+            expect(registry).toBeInstanceOf(Registry);
+            expect(registry.get('a')).toBeInstanceOf(Point);
+            const a: Record<string, unknown> = { v: 1 };
+            a.self = a;
+            a.list = [a];
+            const cloned = deepClone(a);
+            expect(cloned).not.toBe(a);
+            expect(cloned.self).toBe(cloned);
+            expect((cloned.list as unknown[])[0]).toBe(cloned);
+            expect(isEquals(cloned, a)).toBe(true);
+        });
+        it('deepMerge', () => {
+            const target = { a: { b: 1, c: [1] }, d: new Date(1), e: { f: 1 } };
+            const merged = deepMerge(target, {
+                a: { c: [2], g: 'x' },
+                d: new Date(2),
+                h: undefined,
+            });
+            expect(merged).toEqual({
+                a: { b: 1, c: [2], g: 'x' },
+                d: new Date(2),
+                e: { f: 1 },
+            });
+            expect(merged.e).toBe(target.e);
+            expect(target.a).toEqual({ b: 1, c: [1] });
+            expectTypeOf(merged).toEqualTypeOf<{
+                a: { b: number; c: number[]; g: string };
+                d: Date;
+                e: { f: number };
+                h: undefined;
+            }>();
+            expect(deepMerge({ a: 1 }, { a: undefined })).toEqual({ a: 1 });
+            expect(deepMerge({ a: { b: 1 } }, { a: null })).toEqual({ a: null });
+            expect(deepMerge({ a: new Map([[1, 1]]) }, { a: new Map([[2, 2]]) }).a).toEqual(
+                new Map([[2, 2]])
+            );
+        });
+        it('deepMerge array strategies', () => {
+            expect(deepMerge({ a: [1, 2] }, { a: [3] }).a).toEqual([3]);
+            const concatenated = deepMerge(
+                { a: [1, 2] },
+                { a: ['x'] },
+                { arrays: 'concat' }
+            );
+            expect(concatenated.a).toEqual([1, 2, 'x']);
+            expectTypeOf(concatenated.a).toEqualTypeOf<Array<number | string>>();
+            const users = deepMerge(
+                [
+                    { id: 1, name: 'a', tags: ['x'] },
+                    { id: 2, name: 'b', tags: [] },
+                ],
+                [
+                    { id: 2, name: 'B' },
+                    { id: 3, name: 'c' },
+                ],
+                { arrays: { key: 'id' } }
+            );
+            expect(users).toEqual([
+                { id: 1, name: 'a', tags: ['x'] },
+                { id: 2, name: 'B', tags: [] },
+                { id: 3, name: 'c' },
+            ]);
+            expect(
+                deepMerge([{ id: 1, v: 1 }], [{ id: 1, w: 2 }], {
+                    arrays: { key: (item) => (item as { id: number }).id },
+                })
+            ).toEqual([{ id: 1, v: 1, w: 2 }]);
+        });
+        it('deepMerge with custom merger and cycles', () => {
+            const merged = deepMerge(
+                { count: 1, nested: { count: 2 } },
+                { count: 3, nested: { count: 4 } },
+                {
+                    merger: (target, source, path) =>
+                        path[path.length - 1] === 'count'
+                            ? (target as number) + (source as number)
+                            : undefined,
+                }
+            );
+            expect(merged).toEqual({ count: 4, nested: { count: 6 } });
+            const source: Record<string, unknown> = { v: 1 };
+            source.self = source;
+            const cyclic = deepMerge({ self: { w: 1 } }, source) as Record<string, unknown>;
+            expect(cyclic.self).toBe(cyclic);
+            expect(cyclic.v).toBe(1);
+        });
+        it('deepClone and deepMerge keep __proto__ as an own key', () => {
+            const payload = JSON.parse('{"__proto__":{"x":1},"a":1}');
+            const cloned = deepClone(payload);
+            expect(Reflect.getPrototypeOf(cloned)).toBe(Object.prototype);
+            expect(Object.keys(cloned)).toEqual(['__proto__', 'a']);
+            expect(isEquals(cloned, payload)).toBe(true);
+            const merged = deepMerge({}, payload) as Record<string, unknown>;
+            expect(Reflect.getPrototypeOf(merged)).toBe(Object.prototype);
+            expect(merged.x).toBeUndefined();
+            expect(Object.keys(merged)).toEqual(['__proto__', 'a']);
+            const nested = deepMerge(
+                payload,
+                JSON.parse('{"__proto__":{"y":2}}')
+            ) as Record<string, unknown>;
+            expect(Reflect.getPrototypeOf(nested)).toBe(Object.prototype);
+            expect(Object.getOwnPropertyDescriptor(nested, '__proto__')?.value).toEqual({
+                x: 1,
+                y: 2,
+            });
+            expect(({} as Record<string, unknown>).x).toBeUndefined();
+        });
+        it('isURL with options', () => {
+            expect(isURL('httpfoo')).toBe(false);
+            expect(isURL('http:foo')).toBe(false);
+            expect(isURL('http://')).toBe(false);
+            expect(isURL('https://exa mple.com')).toBe(false);
+            expect(isURL('mailto:someone@example.com')).toBe(true);
+            expect(isURL('ftp://ftp.example.com/file.txt')).toBe(true);
+            expect(isURL('javascript:alert(1)')).toBe(false);
+            expect(isURL('localhost:3000')).toBe(false);
+            expect(isURL('http://localhost:3000')).toBe(true);
+            expect(isURL('ftp://a.com', { protocols: ['https'] })).toBe(false);
+            expect(isURL('//www.google.com', { allowProtocolRelative: false })).toBe(
+                false
+            );
+            expect(isURL('/path?q=1')).toBe(false);
+            expect(isURL('/path?q=1', { allowRelative: true })).toBe(true);
+            expect(isURL('../a/b', { allowRelative: true })).toBe(true);
+            expect(isURL('http://localhost', { requireTLD: true })).toBe(false);
+            expect(isURL('http://a.com', { requireTLD: true })).toBe(true);
+            expect(isURL('//a.xn--fiqs8s', { requireTLD: true })).toBe(true);
+        });
+        it('stringifyQuery', () => {
+            expect(
+                stringifyQuery({
+                    a: 1,
+                    b: [1, 2],
+                    c: { d: 'x y', e: [true] },
+                    f: undefined,
+                    g: null,
+                    h: new Date(0),
+                    'i&j': '=',
+                })
+            ).toBe(
+                'a=1&b[]=1&b[]=2&c[d]=x%20y&c[e][]=true&h=1970-01-01T00%3A00%3A00.000Z&i%26j=%3D'
+            );
+            expect(stringifyQuery({ a: [1, 2] }, { arrayFormat: 'index' })).toBe(
+                'a[0]=1&a[1]=2'
+            );
+            expect(stringifyQuery({ a: [1, 2] }, { arrayFormat: 'repeat' })).toBe(
+                'a=1&a=2'
+            );
+            expect(stringifyQuery({ a: [1, 2] }, { arrayFormat: 'comma' })).toBe(
+                'a=1,2'
+            );
+        });
+        it('parseQuery', () => {
+            expect(parseQuery('https://a.com/?a=1&b[]=1&b[]=2&c[d]=x+y#hash')).toEqual({
+                a: '1',
+                b: ['1', '2'],
+                c: { d: 'x y' },
+            });
+            expect(parseQuery('a=1&a=2&b&c[0][d]=1&c[1][d]=2')).toEqual({
+                a: ['1', '2'],
+                b: '',
+                c: [{ d: '1' }, { d: '2' }],
+            });
+            expect(parseQuery('a=1,2', { arrayFormat: 'comma' })).toEqual({
+                a: ['1', '2'],
+            });
+            expect(parseQuery('a=%E4%BD%A0&b=%')).toEqual({ a: '你', b: '%' });
+            const polluted = parseQuery('__proto__[x]=1&a[constructor][y]=1');
+            expect(polluted).toEqual({});
+            expect(({} as Record<string, unknown>).x).toBe(undefined);
+            const params = { a: '1', b: ['1', '2'], c: { d: ['x'], e: { f: 'y' } } };
+            expect(parseQuery(stringifyQuery(params))).toEqual(params);
+            expect(
+                parseQuery(stringifyQuery(params, { arrayFormat: 'index' }))
+            ).toEqual(params);
+        });
+        it('buildURL', () => {
+            expect(buildURL('https://a.com/api', { page: 2, tags: ['a', 'b'] })).toBe(
+                'https://a.com/api?page=2&tags[]=a&tags[]=b'
+            );
+            expect(buildURL('/api?x=1#top', { y: 2 })).toBe('/api?x=1&y=2#top');
+            expect(buildURL('/api?', { y: 2 })).toBe('/api?y=2');
+            expect(buildURL('/api', { y: undefined })).toBe('/api');
+        });
         it('objectType', () => {
             expect(objectType({})).toBe('Object');
 
@@ -479,6 +2548,116 @@ if (import.meta.vitest) {
             await wait(100);
             expect(Date.now() - start).toBeGreaterThanOrEqual(100);
         });
+        it('wait with AbortSignal', async () => {
+            vi.useFakeTimers();
+            const controller = new AbortController();
+            const waiting = wait(100, { signal: controller.signal });
+            vi.advanceTimersByTime(50);
+            controller.abort('stop');
+            const error = await waiting.catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(AbortError);
+            expect((error as AbortError).cause).toBe('stop');
+            expect(vi.getTimerCount()).toBe(0);
+            await expect(
+                wait(100, { signal: controller.signal })
+            ).rejects.toBeInstanceOf(AbortError);
+            vi.useRealTimers();
+        });
+        it('withTimeout', async () => {
+            vi.useFakeTimers();
+            const slow = withTimeout(wait(200), 100);
+            vi.advanceTimersByTime(100);
+            const error = await slow.catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(TimeoutError);
+            expect((error as TimeoutError).ms).toBe(100);
+            const fast = withTimeout(Promise.resolve(1), 100);
+            expect(await fast).toBe(1);
+            vi.advanceTimersByTime(200);
+            expect(vi.getTimerCount()).toBe(0);
+            vi.useRealTimers();
+        });
+        it('retry', async () => {
+            vi.useFakeTimers();
+            const delays: number[] = [];
+            const fn = vi.fn(async (attempt: number) => {
+                if (attempt < 3) throw new Error(`fail ${attempt}`);
+                return attempt;
+            });
+            const result = retry(fn, {
+                delay: 100,
+                onRetry: (_, __, delay) => delays.push(delay),
+            });
+            await vi.runAllTimersAsync();
+            expect(await result).toBe(3);
+            expect(delays).toEqual([100, 200]);
+            vi.useRealTimers();
+        });
+        it('retry exhausted', async () => {
+            vi.useFakeTimers();
+            const result = retry(
+                (attempt) => {
+                    throw new Error(`fail ${attempt}`);
+                },
+                { retries: 2, backoff: 'linear', delay: 10 }
+            ).catch((e: unknown) => e);
+            await vi.runAllTimersAsync();
+            const error = await result;
+            expect(error).toBeInstanceOf(RetryExhaustedError);
+            expect((error as RetryExhaustedError).message).toBe(
+                'Failed after 3 attempts: fail 3'
+            );
+            expect(
+                (error as RetryExhaustedError).attempts.map(({ attempt, delay }) => [
+                    attempt,
+                    delay,
+                ])
+            ).toEqual([
+                [1, 10],
+                [2, 20],
+                [3, undefined],
+            ]);
+            vi.useRealTimers();
+        });
+        it('retry with shouldRetry, jitter and signal', async () => {
+            vi.useFakeTimers();
+            const fatal = new Error('fatal');
+            await expect(
+                retry(
+                    () => {
+                        throw fatal;
+                    },
+                    { shouldRetry: (error) => error !== fatal }
+                )
+            ).rejects.toBe(fatal);
+            const random = vi.spyOn(Math, 'random').mockReturnValue(0.5);
+            const onRetry = vi.fn();
+            const controller = new AbortController();
+            const result = retry(
+                () => {
+                    throw new Error('fail');
+                },
+                {
+                    delay: 100,
+                    maxDelay: 150,
+                    jitter: true,
+                    signal: controller.signal,
+                    onRetry,
+                }
+            ).catch((e: unknown) => e);
+            await vi.advanceTimersByTimeAsync(50);
+            await vi.advanceTimersByTimeAsync(75);
+            controller.abort();
+            expect(await result).toBeInstanceOf(AbortError);
+            expect(
+                onRetry.mock.calls.map(([, attempt, delay]) => [attempt, delay])
+            ).toEqual([
+                [1, 50],
+                [2, 75],
+                [3, 75],
+            ]);
+            random.mockRestore();
+            vi.useRealTimers();
+        });
         it('debounce', async () => {
             let count = 0;
             const fn = () => {
@@ -531,6 +2710,73 @@ if (import.meta.vitest) {
             await wait(120);
             expect(count).toBe(2);
         });
+        it('debounce with leading and trailing', () => {
+            vi.useFakeTimers();
+            const fn = vi.fn((v: number) => v);
+            const debounced = debounce(fn, 100, { leading: true });
+            expect(debounced(1)).toBe(1);
+            expect(debounced(2)).toBe(1);
+            expect(fn).toHaveBeenCalledTimes(1);
+            vi.advanceTimersByTime(100);
+            expect(fn).toHaveBeenCalledTimes(2);
+            expect(fn).toHaveBeenLastCalledWith(2);
+            const leadingOnly = debounce(fn, 100, {
+                leading: true,
+                trailing: false,
+            });
+            leadingOnly(3);
+            leadingOnly(4);
+            vi.advanceTimersByTime(100);
+            expect(fn).toHaveBeenCalledTimes(3);
+            expect(fn).toHaveBeenLastCalledWith(3);
+            vi.useRealTimers();
+        });
+        it('debounce with maxWait', () => {
+            vi.useFakeTimers();
+            const fn = vi.fn();
+            const debounced = debounce(fn, 100, { maxWait: 250 });
+            for (let i = 0; i < 9; i++) {
+                debounced(i);
+                vi.advanceTimersByTime(50);
+            }
+            // 持续调用期间每 250ms 至少执行一次
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(fn).toHaveBeenLastCalledWith(4);
+            vi.advanceTimersByTime(100);
+            expect(fn).toHaveBeenCalledTimes(2);
+            expect(fn).toHaveBeenLastCalledWith(8);
+            vi.useRealTimers();
+        });
+        it('debounce cancel, flush and pending', () => {
+            vi.useFakeTimers();
+            const fn = vi.fn((v: number) => v * 2);
+            const debounced = debounce(fn, 100);
+            debounced(1);
+            expect(debounced.pending()).toBe(true);
+            debounced.cancel();
+            expect(debounced.pending()).toBe(false);
+            vi.advanceTimersByTime(100);
+            expect(fn).not.toHaveBeenCalled();
+            debounced(2);
+            expect(debounced.flush()).toBe(4);
+            expect(debounced.pending()).toBe(false);
+            vi.advanceTimersByTime(100);
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(debounced.flush()).toBe(4);
+            vi.useRealTimers();
+        });
+        it('debounce preserves this', () => {
+            vi.useFakeTimers();
+            const target = {
+                value: 1,
+                read: debounce(function (this: { value: number }) {
+                    return this.value;
+                }, 100),
+            };
+            target.read();
+            expect(target.read.flush()).toBe(1);
+            vi.useRealTimers();
+        });
         it('throttle', () => {
             let count = 0;
             const fn = () => {
@@ -542,7 +2788,8 @@ if (import.meta.vitest) {
             throttled();
             expect(count).toBe(1);
         });
-        it('throttle1', async () => {
+        it('throttle1', () => {
+            vi.useFakeTimers();
             let count = 0;
             const fn = () => {
                 count += 1;
@@ -551,11 +2798,181 @@ if (import.meta.vitest) {
             throttled();
             throttled();
             throttled();
-            await wait(40);
+            vi.advanceTimersByTime(40);
             throttled();
-            await wait(80);
+            vi.advanceTimersByTime(80);
             throttled();
             expect(count).toBe(2);
+            vi.useRealTimers();
+        });
+        it('throttle trailing timing', () => {
+            vi.useFakeTimers();
+            const fn = vi.fn();
+            const throttled = throttle(fn, 100);
+            throttled(1);
+            vi.advanceTimersByTime(40);
+            throttled(2);
+            // 尾调用应在窗口结束时触发，而不是最后一次调用后的 delay
+            vi.advanceTimersByTime(59);
+            expect(fn).toHaveBeenCalledTimes(1);
+            vi.advanceTimersByTime(1);
+            expect(fn).toHaveBeenCalledTimes(2);
+            expect(fn).toHaveBeenLastCalledWith(2);
+            // 窗口不漂移
+            for (let i = 3; i < 13; i++) {
+                throttled(i);
+                vi.advanceTimersByTime(25);
+            }
+            expect(fn).toHaveBeenCalledTimes(4);
+            vi.advanceTimersByTime(100);
+            expect(fn).toHaveBeenCalledTimes(5);
+            expect(fn).toHaveBeenLastCalledWith(12);
+            vi.useRealTimers();
+        });
+        it('throttle with leading and trailing options', () => {
+            vi.useFakeTimers();
+            const fn = vi.fn();
+            const noLeading = throttle(fn, 100, { leading: false });
+            noLeading(1);
+            noLeading(2);
+            expect(fn).not.toHaveBeenCalled();
+            vi.advanceTimersByTime(100);
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(fn).toHaveBeenLastCalledWith(2);
+            fn.mockClear();
+            const noTrailing = throttle(fn, 100, { trailing: false });
+            noTrailing(1);
+            noTrailing(2);
+            vi.advanceTimersByTime(100);
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(fn).toHaveBeenLastCalledWith(1);
+            noTrailing(3);
+            expect(fn).toHaveBeenCalledTimes(2);
+            vi.useRealTimers();
+        });
+        it('throttle cancel and flush', () => {
+            vi.useFakeTimers();
+            const fn = vi.fn((v: number) => v);
+            const throttled = throttle(fn, 100);
+            throttled(1);
+            throttled(2);
+            throttled.cancel();
+            vi.advanceTimersByTime(100);
+            expect(fn).toHaveBeenCalledTimes(1);
+            throttled(3);
+            throttled(4);
+            expect(throttled.pending()).toBe(true);
+            expect(throttled.flush()).toBe(4);
+            expect(throttled.pending()).toBe(false);
+            vi.useRealTimers();
+        });
+        it('throttle with requestAnimationFrame', () => {
+            vi.useFakeTimers({
+                toFake: ['requestAnimationFrame', 'cancelAnimationFrame'],
+            });
+            const fn = vi.fn();
+            const throttled = throttle(fn, 'raf');
+            throttled(1);
+            throttled(2);
+            throttled(3);
+            expect(fn).toHaveBeenCalledTimes(1);
+            vi.advanceTimersToNextTimer();
+            expect(fn).toHaveBeenCalledTimes(2);
+            expect(fn).toHaveBeenLastCalledWith(3);
+            vi.advanceTimersToNextTimer();
+            throttled(4);
+            expect(fn).toHaveBeenCalledTimes(3);
+            throttled(5);
+            throttled.cancel();
+            vi.advanceTimersToNextTimer();
+            expect(fn).toHaveBeenCalledTimes(3);
+            vi.useRealTimers();
+        });
+        it('memoize', () => {
+            const fn = vi.fn((a: number, b = 0) => a * 2 + b);
+            const memoized = memoize(fn);
+            expect(memoized(1)).toBe(2);
+            expect(memoized(1)).toBe(2);
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(memoized(1, 1)).toBe(3);
+            expect(memoized(1, 5)).toBe(7);
+            expect(memoized(1, 5)).toBe(7);
+            expect(memoized(NaN, 1)).toBe(NaN);
+            expect(memoized(NaN, 1)).toBe(NaN);
+            expect(fn).toHaveBeenCalledTimes(4);
+            expect(memoized.cache.has(1, 5)).toBe(true);
+            expect(memoized.cache.delete(1, 5)).toBe(true);
+            expect(memoized.cache.has(1, 5)).toBe(false);
+            expect(memoized.cache.has(1)).toBe(true);
+            const keyed = memoize(fn, { key: (a, b) => `${a}:${b}` });
+            expect(keyed(1, 1)).toBe(3);
+            expect(keyed(1, 2)).toBe(4);
+            expect(keyed.cache.size).toBe(2);
+            expect(keyed.cache.has(1, 1)).toBe(true);
+            expect(keyed.cache.delete(1, 1)).toBe(true);
+            expect(keyed.cache.has(1, 1)).toBe(false);
+            keyed.cache.clear();
+            expect(keyed.cache.size).toBe(0);
+            const target = {
+                base: 10,
+                add: memoize(function (this: { base: number }, v: number) {
+                    return this.base + v;
+                }),
+            };
+            expect(target.add(1)).toBe(11);
+        });
+        it('memoize with LRU and ttl', () => {
+            vi.useFakeTimers();
+            const fn = vi.fn((v: string) => v.toUpperCase());
+            const lru = memoize(fn, { maxSize: 2 });
+            lru('a');
+            lru('b');
+            lru('a');
+            lru('c');
+            expect(lru.cache.has('a')).toBe(true);
+            expect(lru.cache.has('b')).toBe(false);
+            expect(lru.cache.has('c')).toBe(true);
+            fn.mockClear();
+            const expiring = memoize(fn, { ttl: 100 });
+            expiring('a');
+            vi.advanceTimersByTime(99);
+            expiring('a');
+            expect(fn).toHaveBeenCalledTimes(1);
+            vi.advanceTimersByTime(1);
+            expiring('a');
+            expect(fn).toHaveBeenCalledTimes(2);
+        });
+        it('memoize with equals', () => {
+            const fn = vi.fn((options: { a: number[] }) => options.a.length);
+            const memoized = memoize(fn, { equals: true });
+            memoized({ a: [1, 2] });
+            memoized({ a: [1, 2] });
+            expect(fn).toHaveBeenCalledTimes(1);
+            memoized({ a: [1] });
+            expect(fn).toHaveBeenCalledTimes(2);
+            expect(memoized.cache.has({ a: [1, 2] })).toBe(true);
+            const custom = memoize(fn, {
+                equals: ([x], [y]) => x.a.length === y.a.length,
+            });
+            custom({ a: [1] });
+            custom({ a: [2] });
+            expect(fn).toHaveBeenCalledTimes(3);
+        });
+        it('memoize evicts rejected promises', async () => {
+            let count = 0;
+            const fn = vi.fn(async (id: number) => {
+                count += 1;
+                if (count === 1) throw new Error('fail');
+                return id;
+            });
+            const memoized = memoize(fn);
+            const first = memoized(1);
+            expect(memoized(1)).toBe(first);
+            await expect(first).rejects.toThrow('fail');
+            expect(memoized.cache.has(1)).toBe(false);
+            expect(await memoized(1)).toBe(1);
+            expect(await memoized(1)).toBe(1);
+            expect(fn).toHaveBeenCalledTimes(2);
         });
         it('omit', () => {
             const obj = {
@@ -573,6 +2990,42 @@ if (import.meta.vitest) {
             };
             expect(pick(obj, ['a', 'b'])).toEqual({ a: 1, b: 2 });
         });
+        it('pipeAsync', async () => {
+            const result = pipeAsync(Promise.resolve(1))(async (x) => x + 1)(
+                undefined
+            )((x) => x * 2)(false)(async (x) => x.toString())();
+            expectTypeOf(result).toEqualTypeOf<Promise<string>>();
+            expect(await result).toBe('4');
+            expect(await pipeAsync('a')()).toBe('a');
+            // 不可变，可以复用中间结果
+            const base = pipeAsync(1)((x) => x + 1);
+            expect(await base((x) => x * 10)()).toBe(20);
+            expect(await base()).toBe(2);
+        });
+        it('pipeAsync reports the failed step', async () => {
+            const cause = new Error('boom');
+            const error = await pipeAsync(1)((x) => x + 1)(null)(async () => {
+                throw cause;
+            })()
+                .then(() => null)
+                .catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(PipeError);
+            expect((error as PipeError).step).toBe(2);
+            expect((error as PipeError).cause).toBe(cause);
+        });
+        it('pipeAsync with AbortSignal', async () => {
+            const controller = new AbortController();
+            const last = vi.fn();
+            const result = pipeAsync(1, { signal: controller.signal })(
+                async (x, signal) => {
+                    expect(signal).toBe(controller.signal);
+                    controller.abort();
+                    return x;
+                }
+            )(last)();
+            await expect(result).rejects.toBeInstanceOf(AbortError);
+            expect(last).not.toHaveBeenCalled();
+        });
         it('clamp', () => {
             expect(clamp(1, 2, 3)).toBe(2);
             expect(clamp(1, 2, 1)).toBe(1);